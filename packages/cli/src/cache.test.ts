@@ -0,0 +1,174 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LintResult, Rule } from '@edge-lint/core';
+import { LintResultCache, hashConfig } from './cache.js';
+
+let tmpDir: string;
+let cacheFile: string;
+let templateFile: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-lint-cache-'));
+  cacheFile = path.join(tmpDir, '.edgelintcache');
+  templateFile = path.join(tmpDir, 'home.edge');
+  fs.writeFileSync(templateFile, '{{ user }}\n');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function createResult(overrides: Partial<LintResult> = {}): LintResult {
+  return {
+    filename: templateFile,
+    messages: [
+      { ruleId: 'no-undef', severity: 2, message: '"user" is not defined.', line: 1, column: 3 },
+    ],
+    suppressedMessages: [],
+    errorCount: 1,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    source: '{{ user }}\n',
+    ...overrides,
+  };
+}
+
+function createCache(configHash = 'config', strategy: 'metadata' | 'content' = 'metadata') {
+  return new LintResultCache({ location: cacheFile, strategy, configHash });
+}
+
+describe('LintResultCache', () => {
+  it('returns the same result as a fresh lint after saving', () => {
+    const cache = createCache();
+    cache.setCachedResult(templateFile, createResult({ timing: { 'no-undef': 1 } }));
+    cache.save();
+
+    expect(createCache().getCachedResult(templateFile, false)).toEqual(createResult());
+  });
+
+  it('stores the fixed output as the source', () => {
+    fs.writeFileSync(templateFile, '{{ user }}\n');
+    const cache = createCache();
+    cache.setCachedResult(
+      templateFile,
+      createResult({ source: '{{user}}\n', output: '{{ user }}\n' })
+    );
+
+    const cached = cache.getCachedResult(templateFile, false)!;
+    expect(cached.source).toBe('{{ user }}\n');
+    expect(cached.output).toBeUndefined();
+  });
+
+  it('misses when the file content changes', () => {
+    const cache = createCache();
+    cache.setCachedResult(templateFile, createResult());
+    fs.writeFileSync(templateFile, '{{ account }}\n');
+
+    expect(cache.getCachedResult(templateFile, false)).toBeNull();
+  });
+
+  it('hits when only the modification time changes', () => {
+    const cache = createCache('config', 'content');
+    cache.setCachedResult(templateFile, createResult());
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(templateFile, future, future);
+
+    expect(cache.getCachedResult(templateFile, false)).toEqual(createResult());
+  });
+
+  it('is discarded when the config hash changes', () => {
+    const cache = createCache('config-a');
+    cache.setCachedResult(templateFile, createResult());
+    cache.save();
+
+    expect(createCache('config-b').getCachedResult(templateFile, false)).toBeNull();
+    expect(createCache('config-a').getCachedResult(templateFile, false)).not.toBeNull();
+  });
+
+  it('is discarded when the edge-lint version changes', () => {
+    const cache = createCache();
+    cache.setCachedResult(templateFile, createResult());
+    cache.save();
+
+    const contents = JSON.parse(fs.readFileSync(cacheFile, 'utf-8')) as { version: string };
+    fs.writeFileSync(cacheFile, JSON.stringify({ ...contents, version: '0.0.0-other' }));
+
+    expect(createCache().getCachedResult(templateFile, false)).toBeNull();
+  });
+
+  it('ignores a corrupt cache file', () => {
+    fs.writeFileSync(cacheFile, '{ not json');
+
+    expect(createCache().getCachedResult(templateFile, false)).toBeNull();
+  });
+
+  it('does not reuse results with fixable messages when fixing', () => {
+    const fixable = createResult({
+      messages: [
+        {
+          ruleId: 'mustache-spacing',
+          severity: 1,
+          message: 'Expected space after opening braces.',
+          line: 1,
+          column: 2,
+          fix: { range: [2, 2], text: ' ' },
+        },
+      ],
+    });
+    const cache = createCache();
+    cache.setCachedResult(templateFile, fixable);
+
+    expect(cache.getCachedResult(templateFile, true)).toBeNull();
+    expect(cache.getCachedResult(templateFile, false)).not.toBeNull();
+  });
+
+  it('drops entries for deleted files when saving', () => {
+    const cache = createCache();
+    cache.setCachedResult(templateFile, createResult());
+    cache.save();
+    fs.rmSync(templateFile);
+    createCache().save();
+
+    const contents = JSON.parse(fs.readFileSync(cacheFile, 'utf-8')) as { files: object };
+    expect(contents.files).toEqual({});
+  });
+
+  it('puts the default file name in a directory location', () => {
+    const cache = new LintResultCache({
+      location: `${tmpDir}${path.sep}`,
+      strategy: 'metadata',
+      configHash: 'config',
+    });
+
+    expect(cache.filePath).toBe(cacheFile);
+  });
+});
+
+describe('hashConfig', () => {
+  const rule: Rule = {
+    meta: { type: 'problem', docs: { description: 'Test rule', category: 'Best Practices' } },
+    create: () => ({}),
+  };
+
+  it('changes with the config, the plugins and the verify options', () => {
+    const base = hashConfig({ rules: { 'no-undef': 'error' } }, {}, 'off');
+
+    expect(hashConfig({ rules: { 'no-undef': 'error' } }, {}, 'off')).toBe(base);
+    expect(hashConfig({ rules: { 'no-undef': 'warn' } }, {}, 'off')).not.toBe(base);
+    expect(hashConfig({ rules: { 'no-undef': 'error' } }, {}, 'error')).not.toBe(base);
+    expect(
+      hashConfig({ rules: { 'no-undef': 'error' } }, { acme: { rules: { foo: rule } } }, 'off')
+    ).not.toBe(base);
+  });
+
+  it('changes when a plugin rule is edited', () => {
+    const edited: Rule = { ...rule, create: () => ({ Mustache() {} }) };
+
+    expect(hashConfig({}, { acme: { rules: { foo: rule } } }, 'off')).not.toBe(
+      hashConfig({}, { acme: { rules: { foo: edited } } }, 'off')
+    );
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Lint result cache for --cache
+ *
+ * Results are stored per file with the file's size, modification time and
+ * content hash. The whole cache is dropped when the edge-lint version or the
+ * config hash (rules, settings, plugins and verify options) changes.
+ *
+ * With the "metadata" strategy a file whose size and mtime match is not read
+ * again; with "content" its hash is always compared.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { EdgeLintPlugin, LintResult } from '@edge-lint/core';
+
+export type CacheStrategy = 'metadata' | 'content';
+
+export const CACHE_STRATEGIES: readonly CacheStrategy[] = ['metadata', 'content'];
+
+export const DEFAULT_CACHE_FILE = '.edgelintcache';
+
+interface CacheEntry {
+  size: number;
+  mtime: number;
+  hash: string;
+  result: LintResult;
+}
+
+interface CacheFile {
+  version: string;
+  configHash: string;
+  files: Record<string, CacheEntry>;
+}
+
+export interface LintResultCacheOptions {
+  /** Cache file, or a directory to put `.edgelintcache` in */
+  location: string;
+  strategy: CacheStrategy;
+  /** Hash of everything besides the file that affects its result */
+  configHash: string;
+}
+
+const VERSION = readVersion();
+
+export class LintResultCache {
+  readonly filePath: string;
+
+  private readonly _strategy: CacheStrategy;
+  private readonly _configHash: string;
+  private readonly _entries: Map<string, CacheEntry>;
+  private readonly _seen = new Set<string>();
+
+  constructor(options: LintResultCacheOptions) {
+    this.filePath = resolveCacheFile(options.location);
+    this._strategy = options.strategy;
+    this._configHash = options.configHash;
+    this._entries = this._load();
+  }
+
+  /**
+   * Get the cached result for a file, or null if it changed
+   *
+   * Results with fixable messages aren't reused when fixing, so the fixes get applied.
+   */
+  getCachedResult(filePath: string, fix: boolean): LintResult | null {
+    const entry = this._entries.get(filePath);
+    if (!entry) return null;
+    if (fix && entry.result.messages.some((message) => message.fix)) return null;
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      return null;
+    }
+
+    const metadataMatches = stats.size === entry.size && stats.mtimeMs === entry.mtime;
+    if (this._strategy === 'metadata' && metadataMatches) {
+      this._seen.add(filePath);
+      return entry.result;
+    }
+
+    // The file may have been touched without changing
+    if (hashContent(fs.readFileSync(filePath, 'utf-8')) !== entry.hash) return null;
+
+    entry.size = stats.size;
+    entry.mtime = stats.mtimeMs;
+    this._seen.add(filePath);
+    return entry.result;
+  }
+
+  /**
+   * Store the result of linting a file
+   *
+   * Results with read errors aren't cached. The file's current content is kept as the
+   * source (the fixed output after --fix), so a cache hit returns the same result as
+   * linting the file again. Timing is dropped, as a cache hit runs no rules.
+   */
+  setCachedResult(filePath: string, result: LintResult): void {
+    const source = result.output ?? result.source;
+    if (source === undefined) return;
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      return;
+    }
+
+    const { output: _output, timing: _timing, ...cached } = result;
+    this._entries.set(filePath, {
+      size: stats.size,
+      mtime: stats.mtimeMs,
+      hash: hashContent(source),
+      result: { ...cached, source },
+    });
+    this._seen.add(filePath);
+  }
+
+  /**
+   * Write the cache, dropping entries for files that no longer exist
+   */
+  save(): void {
+    const files: Record<string, CacheEntry> = {};
+    for (const [filePath, entry] of this._entries) {
+      if (this._seen.has(filePath) || fs.existsSync(filePath)) {
+        files[filePath] = entry;
+      }
+    }
+
+    const cache: CacheFile = { version: VERSION, configHash: this._configHash, files };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(cache), 'utf-8');
+  }
+
+  /**
+   * Read the cache file, ignoring it if it's unreadable or stale
+   */
+  private _load(): Map<string, CacheEntry> {
+    try {
+      const cache = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CacheFile;
+      if (cache.version === VERSION && cache.configHash === this._configHash) {
+        return new Map(Object.entries(cache.files ?? {}));
+      }
+    } catch {
+      // Missing or corrupt cache files are rebuilt
+    }
+    return new Map();
+  }
+}
+
+/**
+ * Hash the config, plugins and verify options that results depend on
+ *
+ * Plugin rules are hashed by their source, so editing a local plugin
+ * invalidates the cache even if its version doesn't change.
+ */
+export function hashConfig(
+  config: unknown,
+  plugins: Record<string, EdgeLintPlugin>,
+  verifyOptions: unknown
+): string {
+  const pluginFingerprints = Object.entries(plugins)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, plugin]) => ({
+      name,
+      version: plugin.meta?.version,
+      rules: Object.entries(plugin.rules ?? {}).map(([ruleId, rule]) => [
+        ruleId,
+        rule.meta,
+        rule.create.toString(),
+      ]),
+      configs: plugin.configs,
+      tags: plugin.tags,
+    }));
+
+  return hashContent(JSON.stringify({ config, plugins: pluginFingerprints, verifyOptions }));
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * A location that is a directory (or ends with a separator) gets the default file name
+ */
+function resolveCacheFile(location: string): string {
+  const resolved = path.resolve(location);
+  const isDirectory =
+    /[\\/]$/.test(location) ||
+    (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory());
+  return isDirectory ? path.join(resolved, DEFAULT_CACHE_FILE) : resolved;
+}
+
+function readVersion(): string {
+  try {
+    const packageJson = fs.readFileSync(new URL('../package.json', import.meta.url), 'utf-8');
+    return (JSON.parse(packageJson) as { version?: string }).version ?? 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
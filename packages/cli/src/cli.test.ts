@@ -0,0 +1,242 @@
+/**
+ * Runs the built CLI (bin/edge-lint.js), so build the package first
+ */
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const BIN = fileURLToPath(new URL('../bin/edge-lint.js', import.meta.url));
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-lint-cli-'));
+  writeFile(
+    '.edgelintrc.json',
+    JSON.stringify({
+      rules: { 'mustache-spacing': ['warn', 'always'], 'no-empty-mustache': 'error' },
+    })
+  );
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeFile(relativePath: string, content: string): void {
+  const filePath = path.join(tmpDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function run(args: string[], input?: string) {
+  const { status, stdout, stderr } = spawnSync(process.execPath, [BIN, ...args], {
+    cwd: tmpDir,
+    input,
+    encoding: 'utf-8',
+    env: { ...process.env, EDGE_LINT_TIMING: '' },
+    timeout: 30_000,
+  });
+  return { status, stdout, stderr };
+}
+
+describe('--stdin', () => {
+  it('lints the source from stdin', () => {
+    const { status, stdout } = run(['--stdin', '--format', 'json'], '{{ }}\n');
+
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout)).toMatchObject([
+      { filePath: '<stdin>', errorCount: 1, messages: [{ ruleId: 'no-empty-mustache' }] },
+    ]);
+  });
+
+  it('uses --stdin-filename for overrides and the report', () => {
+    writeFile(
+      '.edgelintrc.json',
+      JSON.stringify({
+        rules: { 'no-empty-mustache': 'error' },
+        overrides: [{ files: 'emails/**', rules: { 'no-empty-mustache': 'off' } }],
+      })
+    );
+
+    const email = run(
+      ['--stdin', '--stdin-filename', 'emails/welcome.edge', '--format', 'json'],
+      '{{ }}\n'
+    );
+    expect(email.status).toBe(0);
+    expect(JSON.parse(email.stdout)).toMatchObject([
+      { filePath: path.join(tmpDir, 'emails/welcome.edge'), messages: [] },
+    ]);
+
+    expect(run(['--stdin', '--stdin-filename', 'views/home.edge'], '{{ }}\n').status).toBe(1);
+  });
+
+  it('prints the fixed source to stdout and the report to stderr with --fix', () => {
+    const { status, stdout, stderr } = run(
+      ['--stdin', '--stdin-filename', 'home.edge', '--fix'],
+      '<p>{{user}}</p>\n'
+    );
+
+    expect(status).toBe(0);
+    expect(stdout).toBe('<p>{{ user }}</p>\n');
+    expect(stderr).toBe('');
+    expect(fs.existsSync(path.join(tmpDir, 'home.edge'))).toBe(false);
+  });
+
+  it('prints the source unchanged when nothing is fixable', () => {
+    const { status, stdout, stderr } = run(['--stdin', '--fix'], '{{ }}\n');
+
+    expect(status).toBe(1);
+    expect(stdout).toBe('{{ }}\n');
+    expect(stderr).toContain('no-empty-mustache');
+  });
+});
+
+describe('--concurrency', () => {
+  beforeEach(() => {
+    writeFile(
+      '.edgelintrc.json',
+      JSON.stringify({
+        rules: { 'mustache-spacing': ['warn', 'never'], 'no-empty-mustache': 'error' },
+      })
+    );
+    for (const name of ['a', 'b', 'c', 'd', 'e', 'f']) {
+      writeFile(`views/${name}.edge`, name === 'c' ? '{{}}\n' : `<p>{{ ${name} }}</p>\n`);
+    }
+  });
+
+  it('lints with the config in worker threads and keeps the file order', () => {
+    const serial = run(['--format', 'json']);
+    const parallel = run(['--format', 'json', '--concurrency', '2']);
+
+    expect(parallel.status).toBe(1);
+    expect(parallel.stderr).toBe('');
+    expect(JSON.parse(parallel.stdout)).toEqual(JSON.parse(serial.stdout));
+
+    // "never" only comes from the config file, so the workers loaded it
+    const results: Array<{ filePath: string; messages: Array<{ ruleId: string }> }> = JSON.parse(
+      parallel.stdout
+    );
+    expect(
+      Object.fromEntries(
+        results.map((result) => [path.basename(result.filePath), result.messages[0]!.ruleId])
+      )
+    ).toEqual({
+      'a.edge': 'mustache-spacing',
+      'b.edge': 'mustache-spacing',
+      'c.edge': 'no-empty-mustache',
+      'd.edge': 'mustache-spacing',
+      'e.edge': 'mustache-spacing',
+      'f.edge': 'mustache-spacing',
+    });
+  });
+
+  it('fails the run when a worker cannot load the config', () => {
+    writeFile(
+      'edge-lint.config.mjs',
+      [
+        "import { isMainThread } from 'node:worker_threads';",
+        "if (!isMainThread) throw new Error('Config only loads on the main thread');",
+        "export default { rules: { 'no-empty-mustache': 'error' } };",
+      ].join('\n')
+    );
+
+    const { status, stdout, stderr } = run([
+      '--config',
+      'edge-lint.config.mjs',
+      '--concurrency',
+      '2',
+    ]);
+
+    expect(status).toBe(2);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('Config only loads on the main thread');
+  });
+});
+
+describe('--format', () => {
+  it('writes each name:path output to its file and the rest to stdout', () => {
+    writeFile('views/home.edge', '{{ }}\n');
+
+    const { status, stdout } = run([
+      'views/**/*.edge',
+      '--format',
+      'compact',
+      '--format',
+      'json:reports/lint.json',
+    ]);
+
+    expect(status).toBe(1);
+    expect(stdout).toContain('no-empty-mustache');
+    const report = JSON.parse(fs.readFileSync(path.join(tmpDir, 'reports/lint.json'), 'utf-8'));
+    expect(report).toMatchObject([{ errorCount: 1 }]);
+  });
+});
+
+describe('ignore', () => {
+  beforeEach(() => {
+    writeFile('views/home.edge', '{{ user }}\n');
+    writeFile('legacy/old.edge', '{{ }}\n');
+    writeFile('.edgelintignore', '# old templates\nlegacy/\n');
+  });
+
+  it('skips files matched by .edgelintignore', () => {
+    const { status, stdout } = run(['--format', 'json']);
+
+    expect(status).toBe(0);
+    expect(JSON.parse(stdout).map((result: { filePath: string }) => result.filePath)).toEqual([
+      path.join(tmpDir, 'views/home.edge'),
+    ]);
+  });
+
+  it('warns about explicitly passed files that are ignored', () => {
+    const { status, stdout } = run(['legacy/old.edge', '--format', 'json']);
+
+    expect(status).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject([
+      { warningCount: 1, messages: [{ ruleId: 'file-ignored', severity: 1 }] },
+    ]);
+  });
+
+  it('lints ignored files with --no-ignore', () => {
+    const { status, stdout } = run(['legacy/old.edge', '--no-ignore', '--format', 'json']);
+
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout)).toMatchObject([{ messages: [{ ruleId: 'no-empty-mustache' }] }]);
+  });
+
+  it('honors ignorePatterns from the config', () => {
+    fs.rmSync(path.join(tmpDir, '.edgelintignore'));
+    writeFile(
+      '.edgelintrc.json',
+      JSON.stringify({ rules: { 'no-empty-mustache': 'error' }, ignorePatterns: ['legacy/**'] })
+    );
+
+    expect(run([]).status).toBe(0);
+  });
+});
+
+describe('--timing', () => {
+  it('prints the table to stderr, keeping the report on stdout', () => {
+    writeFile('views/home.edge', '{{ }}\n');
+
+    const { stdout, stderr } = run(['--format', 'json', '--timing']);
+
+    expect(JSON.parse(stdout)).toMatchObject([{ errorCount: 1 }]);
+    expect(stderr).toContain('no-empty-mustache');
+    expect(stderr).toContain('Time (ms)');
+  });
+
+  it('times cached files too', () => {
+    writeFile('views/home.edge', '{{ }}\n');
+    run(['--cache']);
+
+    const { stderr } = run(['--cache', '--timing']);
+
+    expect(stderr).toContain('no-empty-mustache');
+  });
+});
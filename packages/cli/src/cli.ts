@@ -9,6 +9,13 @@ import { init } from './commands/init.js';
 
 const program = new Command();
 
+/**
+ * Collect the values of an option that can be repeated
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 program
   .name('edge-lint')
   .description('Linter for Edge.js templates')
@@ -19,14 +26,38 @@ program
   .command('lint [patterns...]', { isDefault: true })
   .description('Lint Edge.js template files')
   .option('-f, --fix', 'Automatically fix problems')
-  .option('--format <format>', 'Output format (stylish, json, compact)', 'stylish')
+  .option(
+    '--format <format[:path]>',
+    'Output format (stylish, json, compact, sarif, junit, checkstyle, github, html, ' +
+      'or a path/package), optionally written to a file; repeatable',
+    collect
+  )
   .option('-c, --config <path>', 'Path to configuration file')
   .option('-q, --quiet', 'Report errors only')
   .option('--max-warnings <number>', 'Number of warnings before failing', parseInt)
   .option('--ignore <patterns...>', 'Patterns to ignore')
-  .option('--no-ignore', 'Disable default ignore patterns')
+  .option('--ignore-path <path>', 'Path to the ignore file (default .edgelintignore)')
+  .option('--no-ignore', 'Disable ignore files and patterns')
+  .option(
+    '--report-unused-disable-directives',
+    'Report edge-lint-disable comments that suppress nothing'
+  )
   .option('-o, --output-file <path>', 'Write output to file')
   .option('--debug', 'Enable debug output')
+  .option(
+    '--timing',
+    'Print the time spent in each rule (also EDGE_LINT_TIMING set to anything but 0 or false)'
+  )
+  .option('--cache', 'Only lint files that changed since the last run')
+  .option('--cache-location <path>', 'Path to the cache file or directory', '.edgelintcache')
+  .option(
+    '--cache-strategy <strategy>',
+    'How to detect changed files (metadata, content)',
+    'metadata'
+  )
+  .option('--concurrency <n|auto>', 'Lint files in parallel worker threads')
+  .option('--stdin', 'Lint source read from stdin (with --fix, print the fixed source)')
+  .option('--stdin-filename <path>', 'Filename for the stdin source')
   .action(async (patterns: string[], options) => {
     try {
       const result = await lint({
@@ -36,10 +67,20 @@ program
         config: options.config,
         quiet: options.quiet,
         maxWarnings: options.maxWarnings,
-        ignore: options.ignore,
-        noIgnore: !options.ignore && options.noIgnore !== false ? false : options.noIgnore,
+        // --ignore <patterns...> and --no-ignore share the `ignore` option
+        ignore: Array.isArray(options.ignore) ? options.ignore : undefined,
+        ignorePath: options.ignorePath,
+        noIgnore: options.ignore === false,
+        reportUnusedDisableDirectives: options.reportUnusedDisableDirectives,
         outputFile: options.outputFile,
         debug: options.debug,
+        timing: options.timing,
+        cache: options.cache,
+        cacheLocation: options.cacheLocation,
+        cacheStrategy: options.cacheStrategy,
+        concurrency: options.concurrency,
+        stdin: options.stdin,
+        stdinFilename: options.stdinFilename,
       });
 
       // Determine exit code
@@ -4,13 +4,36 @@
 
 import fs from 'node:fs';
 import path from 'node:path';
-import { glob } from 'glob';
-import { Linter, type LintResult, type EdgeLintConfig } from '@edge-lint/core';
-import { getFormatter } from '../formatters/index.js';
-import type { CLIOptions } from '../types.js';
+import { glob, hasMagic } from 'glob';
+import { minimatch } from 'minimatch';
+import {
+  Linter,
+  findConfigFile,
+  importConfigFile,
+  resolveConfigWithPlugins,
+  type LintResult,
+  type EdgeLintConfig,
+  type LoadedConfig,
+  type VerifyOptions,
+  type RuleMeta,
+} from '@edge-lint/core';
+import { loadFormatter } from '../formatters/index.js';
+import { lintFilesInWorkers, resolveConcurrency } from '../worker-pool.js';
+import { formatTiming, getTimingListSize, isTimingEnabled } from '../timing.js';
+import { createIgnoreMatcher, type IgnoreMatcher } from '../ignore.js';
+import {
+  LintResultCache,
+  hashConfig,
+  CACHE_STRATEGIES,
+  DEFAULT_CACHE_FILE,
+  type CacheStrategy,
+} from '../cache.js';
+import type { CLIOptions, FormatterOptions } from '../types.js';
 
 const DEFAULT_PATTERNS = ['**/*.edge'];
 const DEFAULT_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**'];
+// Reported filename when --stdin is used without --stdin-filename
+const STDIN_FILENAME = '<stdin>';
 
 export interface LintCommandResult {
   results: LintResult[];
@@ -21,9 +44,9 @@ export interface LintCommandResult {
 }
 
 /**
- * Load configuration from file or use defaults
+ * Load configuration (and the plugins it uses) from file or use defaults
  */
-async function loadConfig(configPath?: string): Promise<EdgeLintConfig> {
+export async function loadConfig(configPath?: string): Promise<LoadedConfig> {
   // Default configuration
   const defaultConfig: EdgeLintConfig = {
     rules: {
@@ -34,75 +57,81 @@ async function loadConfig(configPath?: string): Promise<EdgeLintConfig> {
     },
   };
 
-  if (!configPath) {
-    // Try to find config file automatically
-    const configNames = [
-      '.edgelintrc.json',
-      '.edgelintrc.js',
-      '.edgelintrc.mjs',
-      'edge-lint.config.json',
-      'edge-lint.config.js',
-      'edge-lint.config.mjs',
-    ];
-
-    for (const name of configNames) {
-      const fullPath = path.resolve(process.cwd(), name);
-      if (fs.existsSync(fullPath)) {
-        configPath = fullPath;
-        break;
-      }
-    }
-  }
+  // Try to find config file automatically
+  configPath ??= findConfigFile(process.cwd());
 
   if (!configPath) {
-    return defaultConfig;
+    return { config: defaultConfig, plugins: {} };
   }
 
   // Load config file
   const ext = path.extname(configPath);
-  if (ext === '.json') {
-    const content = fs.readFileSync(configPath, 'utf-8');
-    return { ...defaultConfig, ...JSON.parse(content) };
-  } else if (ext === '.js' || ext === '.mjs') {
-    const module = await import(path.resolve(configPath));
-    return { ...defaultConfig, ...module.default };
+  if (ext !== '.json' && ext !== '.js' && ext !== '.mjs') {
+    return { config: defaultConfig, plugins: {} };
   }
+  const fileConfig = await importConfigFile(configPath);
 
-  return defaultConfig;
+  // Default rules only apply when the file doesn't provide its own
+  const baseConfig = fileConfig.rules || fileConfig.extends ? {} : defaultConfig;
+
+  // Load plugins and resolve `extends` relative to the config file
+  return resolveConfigWithPlugins({ ...baseConfig, ...fileConfig }, { filePath: configPath });
 }
 
 /**
  * Find files to lint
+ *
+ * Ignored files matched by a glob are skipped. Ignored files passed explicitly
+ * are returned in `ignoredFiles` as well, so they can be reported.
  */
-async function findFiles(patterns: string[], ignore: string[]): Promise<string[]> {
+async function findFiles(
+  patterns: string[],
+  ignore: string[],
+  isIgnored: IgnoreMatcher
+): Promise<{ files: string[]; ignoredFiles: Set<string> }> {
   const files: string[] = [];
+  const ignoredFiles = new Set<string>();
 
   for (const pattern of patterns) {
+    if (!hasMagic(pattern) && fs.statSync(pattern, { throwIfNoEntry: false })?.isFile()) {
+      const file = path.resolve(pattern);
+      if (isIgnored(file)) ignoredFiles.add(file);
+      files.push(file);
+      continue;
+    }
+
     const matches = await glob(pattern, {
       ignore,
       absolute: true,
       nodir: true,
     });
-    files.push(...matches);
+    files.push(...matches.filter((file) => !isIgnored(file)));
   }
 
   // Deduplicate
-  return [...new Set(files)];
+  return { files: [...new Set(files)], ignoredFiles };
 }
 
 /**
  * Lint a single file
+ *
+ * Read errors are reported as a result; config errors are thrown.
  */
-function lintFile(
+export function lintFile(
   filePath: string,
   linter: Linter,
-  config: EdgeLintConfig,
-  fix: boolean
+  fix: boolean,
+  verifyOptions: VerifyOptions
 ): LintResult {
-  const source = fs.readFileSync(filePath, 'utf-8');
+  let source: string;
+  try {
+    source = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    return createFileErrorResult(filePath, error as Error);
+  }
 
   if (fix) {
-    const result = linter.verifyAndFix(source, filePath, config);
+    const result = linter.verifyAndFix(source, filePath, undefined, verifyOptions);
 
     // Write fixed content back if there were fixes
     if (result.output && result.output !== source) {
@@ -111,86 +140,335 @@ function lintFile(
 
     return result;
   } else {
-    const messages = linter.verify(source, filePath, config);
+    const messages = linter.verify(source, filePath, undefined, verifyOptions);
     return {
       filename: filePath,
       messages,
+      suppressedMessages: linter.getSuppressedMessages(),
       errorCount: messages.filter(m => m.severity === 2).length,
       warningCount: messages.filter(m => m.severity === 1).length,
       fixableErrorCount: messages.filter(m => m.severity === 2 && m.fix).length,
       fixableWarningCount: messages.filter(m => m.severity === 1 && m.fix).length,
       source,
+      timing: verifyOptions.timing ? linter.getRuleTimes() : undefined,
     };
   }
 }
 
+/**
+ * Lint files, reusing cached results and spreading the rest across workers
+ *
+ * Results are in the order of `files`.
+ */
+async function lintFiles(
+  files: string[],
+  options: CLIOptions,
+  { config, plugins }: LoadedConfig,
+  verifyOptions: VerifyOptions
+): Promise<LintResult[]> {
+  const fix = options.fix ?? false;
+
+  // Cached results depend on the config, plugins and verify options as well as the file.
+  // Timing doesn't change them, but a timing run skips cached results so every file is timed.
+  const { timing, ...cachedVerifyOptions } = verifyOptions;
+  const configHash = hashConfig(config, plugins, cachedVerifyOptions);
+  const cache = options.cache ? createCache(options, configHash) : null;
+
+  const results: LintResult[] = new Array(files.length);
+  const pending: number[] = [];
+  files.forEach((file, index) => {
+    const cached = timing ? null : cache?.getCachedResult(file, fix);
+    if (cached) {
+      results[index] = cached;
+    } else {
+      pending.push(index);
+    }
+  });
+
+  // Invalid configs fail the whole run, so ConfigErrors are not caught here
+  const pendingFiles = pending.map((index) => files[index]!);
+  const concurrency = resolveConcurrency(options.concurrency, pendingFiles.length);
+  let linted: LintResult[];
+  if (concurrency > 1) {
+    linted = await lintFilesInWorkers(pendingFiles, concurrency, {
+      configPath: options.config,
+      fix,
+      verifyOptions,
+    });
+  } else {
+    const linter = new Linter({ config, plugins });
+    linted = pendingFiles.map((file) => lintFile(file, linter, fix, verifyOptions));
+  }
+
+  linted.forEach((result, i) => {
+    cache?.setCachedResult(result.filename, result);
+    results[pending[i]!] = result;
+  });
+
+  cache?.save();
+  return results;
+}
+
+/**
+ * Lint source read from stdin
+ *
+ * --stdin-filename is used for overrides, ignore patterns and the report.
+ * Fixes are never written to disk; lint() prints the fixed source instead.
+ */
+async function lintStdin(
+  options: CLIOptions,
+  { config, plugins }: LoadedConfig,
+  isIgnored: IgnoreMatcher,
+  verifyOptions: VerifyOptions
+): Promise<LintResult> {
+  const source = await readStdin();
+  const filename = options.stdinFilename ? path.resolve(options.stdinFilename) : STDIN_FILENAME;
+
+  if (options.stdinFilename && isIgnored(filename)) {
+    return createIgnoredResult(filename, source);
+  }
+
+  const linter = new Linter({ config, plugins });
+  if (options.fix) {
+    return linter.verifyAndFix(source, filename, undefined, verifyOptions);
+  }
+
+  const messages = linter.verify(source, filename, undefined, verifyOptions);
+  return {
+    filename,
+    messages,
+    suppressedMessages: linter.getSuppressedMessages(),
+    errorCount: messages.filter(m => m.severity === 2).length,
+    warningCount: messages.filter(m => m.severity === 1).length,
+    fixableErrorCount: messages.filter(m => m.severity === 2 && m.fix).length,
+    fixableWarningCount: messages.filter(m => m.severity === 1 && m.fix).length,
+    source,
+    timing: verifyOptions.timing ? linter.getRuleTimes() : undefined,
+  };
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Create the ignore check for --ignore globs, the ignore file and `ignorePatterns`
+ *
+ * --no-ignore disables all of them.
+ */
+function createIgnore(
+  options: CLIOptions,
+  ignore: string[],
+  { config }: LoadedConfig
+): IgnoreMatcher {
+  if (options.noIgnore) return () => false;
+
+  const cwd = process.cwd();
+  const isIgnoredByFile = createIgnoreMatcher({
+    cwd,
+    ignorePath: options.ignorePath,
+    ignorePatterns: config.ignorePatterns,
+    configDir: options.config ? path.dirname(path.resolve(options.config)) : cwd,
+  });
+
+  // --ignore globs are relative to the working directory
+  return (filePath) => {
+    const relativePath = path.relative(cwd, filePath).split(path.sep).join('/');
+    return (
+      ignore.some((pattern) => minimatch(relativePath, pattern, { dot: true })) ||
+      isIgnoredByFile(filePath)
+    );
+  };
+}
+
+/**
+ * Result for a file that was passed explicitly but matches an ignore pattern
+ */
+function createIgnoredResult(filePath: string, source?: string): LintResult {
+  return {
+    filename: filePath,
+    messages: [{
+      ruleId: 'file-ignored',
+      severity: 1,
+      message: 'File ignored because of a matching ignore pattern. Use "--no-ignore" to override.',
+      line: 1,
+      column: 0,
+    }],
+    errorCount: 0,
+    warningCount: 1,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    source,
+  };
+}
+
+/**
+ * Split --format values into formatter names and output files
+ *
+ * `name:path` writes to `path`; a plain name writes to --output-file, or stdout.
+ * The drive letter of a Windows formatter path (`C:\formatter.js:report.json`) is kept.
+ */
+function parseFormats(
+  format: string | string[] | undefined,
+  outputFile: string | undefined
+): Array<{ name: string; outputFile: string | undefined }> {
+  const values = typeof format === 'string' ? [format] : (format ?? []);
+  if (values.length === 0) return [{ name: 'stylish', outputFile }];
+
+  return values.map((value) => {
+    const start = /^[a-z]:[\\/]/i.test(value) ? 2 : 0;
+    const separator = value.indexOf(':', start);
+    if (separator <= 0) return { name: value, outputFile };
+    return { name: value.slice(0, separator), outputFile: value.slice(separator + 1) };
+  });
+}
+
+/**
+ * Metadata of the rules that reported messages, including plugin rules
+ */
+function getRulesMeta(
+  results: LintResult[],
+  { config, plugins }: LoadedConfig
+): Record<string, RuleMeta> {
+  const rules = new Linter({ config, plugins }).getRules();
+  const rulesMeta: Record<string, RuleMeta> = {};
+
+  for (const result of results) {
+    for (const message of [...result.messages, ...(result.suppressedMessages ?? [])]) {
+      const rule = rules.get(message.ruleId);
+      if (rule) rulesMeta[message.ruleId] = rule.meta;
+    }
+  }
+
+  return rulesMeta;
+}
+
+/**
+ * Result for a file that couldn't be read
+ */
+function createFileErrorResult(filePath: string, error: Error): LintResult {
+  return {
+    filename: filePath,
+    messages: [{
+      ruleId: 'file-error',
+      severity: 2,
+      message: `Error reading file: ${error.message}`,
+      line: 1,
+      column: 0,
+    }],
+    errorCount: 1,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+  };
+}
+
+/**
+ * Create the result cache for --cache
+ */
+function createCache(options: CLIOptions, configHash: string): LintResultCache {
+  const strategy = options.cacheStrategy ?? 'metadata';
+  if (!CACHE_STRATEGIES.includes(strategy as CacheStrategy)) {
+    throw new Error(
+      `Unknown cache strategy: ${strategy}. Available: ${CACHE_STRATEGIES.join(', ')}`
+    );
+  }
+
+  return new LintResultCache({
+    location: options.cacheLocation ?? DEFAULT_CACHE_FILE,
+    strategy: strategy as CacheStrategy,
+    configHash,
+  });
+}
+
 /**
  * Execute the lint command
  */
 export async function lint(options: CLIOptions): Promise<LintCommandResult> {
-  const patterns = options.patterns.length > 0 ? options.patterns : DEFAULT_PATTERNS;
   const ignore = options.noIgnore ? [] : [...DEFAULT_IGNORE, ...(options.ignore ?? [])];
 
   // Load configuration
-  const config = await loadConfig(options.config);
+  const loadedConfig = await loadConfig(options.config);
+  const isIgnored = createIgnore(options, ignore, loadedConfig);
 
-  // Find files
-  const files = await findFiles(patterns, ignore);
+  // Load the formatters first, so an unknown --format fails before linting
+  const outputs = await Promise.all(
+    parseFormats(options.format, options.outputFile).map(async ({ name, outputFile }) => ({
+      formatter: await loadFormatter(name),
+      outputFile,
+    }))
+  );
 
-  if (files.length === 0) {
-    return {
-      results: [],
-      errorCount: 0,
-      warningCount: 0,
-      fixableErrorCount: 0,
-      fixableWarningCount: 0,
-    };
-  }
+  const verifyOptions: VerifyOptions = {
+    reportUnusedDisableDirectives: options.reportUnusedDisableDirectives ? 'error' : 'off',
+    timing: options.timing || isTimingEnabled(),
+  };
+
+  let results: LintResult[];
+  if (options.stdin) {
+    results = [await lintStdin(options, loadedConfig, isIgnored, verifyOptions)];
+  } else {
+    // Find files
+    const patterns = options.patterns.length > 0 ? options.patterns : DEFAULT_PATTERNS;
+    const { files, ignoredFiles } = await findFiles(patterns, ignore, isIgnored);
 
-  // Create linter
-  const linter = new Linter({ config });
-
-  // Lint files
-  const results: LintResult[] = [];
-  for (const file of files) {
-    try {
-      const result = lintFile(file, linter, config, options.fix ?? false);
-      results.push(result);
-    } catch (error) {
-      // Handle file read errors
-      const err = error as Error;
-      results.push({
-        filename: file,
-        messages: [{
-          ruleId: 'file-error',
-          severity: 2,
-          message: `Error reading file: ${err.message}`,
-          line: 1,
-          column: 0,
-        }],
-        errorCount: 1,
+    if (files.length === 0) {
+      return {
+        results: [],
+        errorCount: 0,
         warningCount: 0,
         fixableErrorCount: 0,
         fixableWarningCount: 0,
-      });
+      };
     }
+
+    // Explicitly passed files that are ignored get a warning instead of being linted
+    const linted = await lintFiles(
+      files.filter((file) => !ignoredFiles.has(file)),
+      options,
+      loadedConfig,
+      verifyOptions
+    );
+    let next = 0;
+    results = files.map((file) =>
+      ignoredFiles.has(file) ? createIgnoredResult(file) : linted[next++]!
+    );
   }
 
-  // Format and output results
-  const formatter = getFormatter(options.format ?? 'stylish');
-  const output = formatter.format(results, {
+  // With --stdin --fix, stdout carries the fixed source, so the report goes to stderr
+  const fixStdin = options.stdin && options.fix;
+  const print = fixStdin ? console.error : console.log;
+  if (fixStdin) {
+    process.stdout.write(results[0]!.output ?? results[0]!.source ?? '');
+  }
+
+  // Format and output results, once per --format
+  const formatterOptions: FormatterOptions = {
     cwd: process.cwd(),
     quiet: options.quiet,
-  });
+    rulesMeta: getRulesMeta(results, loadedConfig),
+  };
+  for (const { formatter, outputFile } of outputs) {
+    const output = formatter.format(results, formatterOptions);
+    if (!output) continue;
 
-  if (output) {
-    if (options.outputFile) {
-      fs.writeFileSync(options.outputFile, output, 'utf-8');
+    if (outputFile) {
+      fs.mkdirSync(path.dirname(path.resolve(outputFile)), { recursive: true });
+      fs.writeFileSync(outputFile, output, 'utf-8');
     } else {
-      console.log(output);
+      print(output);
     }
   }
 
+  // The table goes to stderr so it doesn't mix with json, sarif or xml output on stdout
+  if (verifyOptions.timing) {
+    console.error(formatTiming(results, getTimingListSize()));
+  }
+
   // Calculate totals
   const totals = results.reduce(
     (acc, result) => ({
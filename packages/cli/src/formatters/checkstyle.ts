@@ -0,0 +1,40 @@
+/**
+ * Checkstyle formatter - Checkstyle XML report
+ */
+
+import type { LintResult } from '@edge-lint/core';
+import type { Formatter, FormatterOptions } from '../types.js';
+import { escapeXml } from './xml.js';
+
+export const checkstyle: Formatter = {
+  format(results: LintResult[], options: FormatterOptions = {}): string {
+    const quiet = options.quiet ?? false;
+
+    const output: string[] = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<checkstyle version="4.3">',
+    ];
+
+    for (const result of results) {
+      const messages = quiet
+        ? result.messages.filter(m => m.severity === 2)
+        : result.messages;
+
+      output.push(`  <file name="${escapeXml(result.filename)}">`);
+
+      for (const message of messages) {
+        const severity = message.severity === 2 ? 'error' : 'warning';
+        const source = escapeXml(`edge-lint.${message.ruleId}`);
+        output.push(
+          `    <error line="${message.line}" column="${message.column + 1}" severity="${severity}" ` +
+            `message="${escapeXml(message.message)}" source="${source}" />`
+        );
+      }
+
+      output.push('  </file>');
+    }
+
+    output.push('</checkstyle>');
+    return output.join('\n');
+  },
+};
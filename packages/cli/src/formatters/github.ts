@@ -0,0 +1,63 @@
+/**
+ * GitHub formatter - workflow commands that annotate pull request diffs
+ *
+ * Paths are relative to the repository root (GITHUB_WORKSPACE, or the working
+ * directory outside of GitHub Actions) and lines and columns are 1-based.
+ */
+
+import path from 'node:path';
+import type { LintMessage, LintResult } from '@edge-lint/core';
+import type { Formatter, FormatterOptions } from '../types.js';
+
+/**
+ * Escape the message of a workflow command
+ */
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/**
+ * Escape a property value, where `:` and `,` would end the value
+ */
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+function formatProperties(file: string, message: LintMessage): string {
+  const properties: Array<[string, string | number]> = [
+    ['file', file],
+    ['line', message.line],
+  ];
+  if (message.endLine !== undefined) properties.push(['endLine', message.endLine]);
+  properties.push(['col', message.column + 1]);
+  if (message.endColumn !== undefined) properties.push(['endColumn', message.endColumn + 1]);
+  properties.push(['title', message.ruleId]);
+
+  return properties.map(([key, value]) => `${key}=${escapeProperty(String(value))}`).join(',');
+}
+
+export const github: Formatter = {
+  format(results: LintResult[], options: FormatterOptions = {}): string {
+    const root = process.env.GITHUB_WORKSPACE ?? options.cwd ?? process.cwd();
+    const quiet = options.quiet ?? false;
+
+    const output: string[] = [];
+
+    for (const result of results) {
+      const messages = quiet
+        ? result.messages.filter(m => m.severity === 2)
+        : result.messages;
+
+      const relativePath = path.relative(root, result.filename).split(path.sep).join('/');
+
+      for (const message of messages) {
+        const command = message.severity === 2 ? 'error' : 'warning';
+        output.push(
+          `::${command} ${formatProperties(relativePath, message)}::${escapeData(message.message)}`
+        );
+      }
+    }
+
+    return output.join('\n');
+  },
+};
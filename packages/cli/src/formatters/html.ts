@@ -0,0 +1,270 @@
+/**
+ * HTML formatter - self-contained report page for CI artifacts
+ *
+ * The page has no external assets: a summary per rule and per file, then a
+ * collapsible section per file with a code frame for each message.
+ */
+
+import path from 'node:path';
+import type { LintMessage, LintResult, RuleMeta } from '@edge-lint/core';
+import type { Formatter, FormatterOptions } from '../types.js';
+import { escapeXml as escapeHtml } from './xml.js';
+
+// Lines shown above and below the reported range
+const CONTEXT_LINES = 2;
+
+interface Counts {
+  errors: number;
+  warnings: number;
+  fixable: number;
+}
+
+interface RuleSummary extends Counts {
+  files: Set<string>;
+}
+
+interface FileReport extends Counts {
+  id: string;
+  relativePath: string;
+  result: LintResult;
+  messages: LintMessage[];
+}
+
+const STYLES = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 0; color: #1f2328; }
+header { padding: 16px 24px; color: #fff; background: #2da44e; }
+header.warning { background: #bf8700; }
+header.error { background: #cf222e; }
+h1 { margin: 0; font-size: 20px; }
+main { padding: 0 24px 24px; }
+h2 { margin-top: 24px; font-size: 16px; }
+table { border-collapse: collapse; }
+th, td { padding: 4px 12px; border-bottom: 1px solid #d0d7de; text-align: left; }
+td.count { text-align: right; font-variant-numeric: tabular-nums; }
+details { margin: 8px 0; border: 1px solid #d0d7de; border-radius: 6px; }
+summary { padding: 8px 12px; background: #f6f8fa; cursor: pointer; font-weight: 600; }
+.message { padding: 8px 12px; border-top: 1px solid #d0d7de; }
+.severity { font-weight: 600; }
+.severity.error { color: #cf222e; }
+.severity.warning { color: #9a6700; }
+.badge { padding: 0 6px; border-radius: 10px; font-size: 12px; color: #fff; background: #8250df; }
+.rule { color: #59636e; }
+pre { margin: 8px 0 0; padding: 8px 0; overflow-x: auto; background: #f6f8fa; border-radius: 6px; }
+.line { display: block; padding-right: 12px; }
+.line.reported { background: #fff8c5; }
+.line-number { display: inline-block; width: 4em; padding-right: 12px; color: #59636e; text-align: right; user-select: none; }
+mark { background: #ff818266; color: inherit; border-bottom: 2px solid #cf222e; }
+`;
+
+function pluralize(word: string, count: number): string {
+  return count === 1 ? word : `${word}s`;
+}
+
+function countMessages(messages: LintMessage[]): Counts {
+  return {
+    errors: messages.filter(m => m.severity === 2).length,
+    warnings: messages.filter(m => m.severity === 1).length,
+    fixable: messages.filter(m => m.fix).length,
+  };
+}
+
+function formatCounts({ errors, warnings }: Counts): string {
+  return `${errors} ${pluralize('error', errors)}, ${warnings} ${pluralize('warning', warnings)}`;
+}
+
+/**
+ * Render the lines around a message, marking the reported range
+ */
+function renderCodeFrame(source: string, message: LintMessage): string {
+  const lines = source.split(/\r?\n/);
+  // A trailing newline doesn't start another line
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  const startLine = message.line;
+  const endLine = Math.max(message.endLine ?? startLine, startLine);
+  const first = Math.max(1, startLine - CONTEXT_LINES);
+  const last = Math.min(lines.length, endLine + CONTEXT_LINES);
+
+  const rendered: string[] = [];
+  for (let lineNumber = first; lineNumber <= last; lineNumber++) {
+    const text = lines[lineNumber - 1] ?? '';
+    const reported = lineNumber >= startLine && lineNumber <= endLine;
+
+    let html = escapeHtml(text);
+    if (reported) {
+      // Without an end position, only the character at the start is marked
+      const start = lineNumber === startLine ? message.column : 0;
+      const end =
+        lineNumber === endLine
+          ? (message.endColumn ?? (message.endLine === undefined ? start + 1 : text.length))
+          : text.length;
+      const markEnd = Math.max(end, start + 1);
+      html =
+        escapeHtml(text.slice(0, start)) +
+        `<mark>${escapeHtml(text.slice(start, markEnd)) || ' '}</mark>` +
+        escapeHtml(text.slice(markEnd));
+    }
+
+    rendered.push(
+      `<span class="line${reported ? ' reported' : ''}">` +
+        `<span class="line-number">${lineNumber}</span>${html}</span>`
+    );
+  }
+
+  return `<pre><code>${rendered.join('')}</code></pre>`;
+}
+
+/**
+ * Only http(s) docs URLs are linked; plugin rules could set `javascript:` URLs
+ */
+function isSafeUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function renderMessage(message: LintMessage, source: string | undefined, meta?: RuleMeta): string {
+  const severity = message.severity === 2 ? 'error' : 'warning';
+  const url = meta?.docs?.url;
+  const ruleId = url && isSafeUrl(url)
+    ? `<a class="rule" href="${escapeHtml(url)}">${escapeHtml(message.ruleId)}</a>`
+    : `<span class="rule">${escapeHtml(message.ruleId)}</span>`;
+
+  return [
+    '<div class="message">',
+    `<span class="severity ${severity}">${severity}</span> `,
+    `<span class="location">${message.line}:${message.column + 1}</span> `,
+    `${escapeHtml(message.message)} ${ruleId}`,
+    message.fix ? ' <span class="badge">fixable</span>' : '',
+    source !== undefined ? renderCodeFrame(source, message) : '',
+    '</div>',
+  ].join('');
+}
+
+function renderRuleSummary(rules: Map<string, RuleSummary>): string {
+  const rows = [...rules]
+    .sort(([a, x], [b, y]) => y.errors - x.errors || y.warnings - x.warnings || a.localeCompare(b))
+    .map(
+      ([ruleId, summary]) =>
+        `<tr><td>${escapeHtml(ruleId)}</td><td class="count">${summary.errors}</td>` +
+        `<td class="count">${summary.warnings}</td><td class="count">${summary.fixable}</td>` +
+        `<td class="count">${summary.files.size}</td></tr>`
+    );
+
+  return [
+    '<h2>Rules</h2>',
+    '<table><thead><tr><th>Rule</th><th>Errors</th><th>Warnings</th><th>Fixable</th>',
+    '<th>Files</th></tr></thead>',
+    `<tbody>${rows.join('')}</tbody></table>`,
+  ].join('');
+}
+
+function renderFileSummary(files: FileReport[]): string {
+  const rows = files.map(
+    (file) =>
+      `<tr><td><a href="#${file.id}">${escapeHtml(file.relativePath)}</a></td>` +
+      `<td class="count">${file.errors}</td><td class="count">${file.warnings}</td>` +
+      `<td class="count">${file.fixable}</td></tr>`
+  );
+
+  return [
+    '<h2>Files</h2>',
+    '<table><thead><tr><th>File</th><th>Errors</th><th>Warnings</th><th>Fixable</th></tr></thead>',
+    `<tbody>${rows.join('')}</tbody></table>`,
+  ].join('');
+}
+
+/**
+ * A collapsible section per file; files with errors start expanded
+ */
+function renderFile(file: FileReport, rulesMeta: Record<string, RuleMeta>): string {
+  return [
+    `<details id="${file.id}"${file.errors > 0 ? ' open' : ''}>`,
+    `<summary>${escapeHtml(file.relativePath)} (${formatCounts(file)})</summary>`,
+    ...file.messages.map((message) =>
+      // After --fix, messages point into the fixed output
+      renderMessage(message, file.result.output ?? file.result.source, rulesMeta[message.ruleId])
+    ),
+    '</details>',
+  ].join('\n');
+}
+
+export const html: Formatter = {
+  format(results: LintResult[], options: FormatterOptions = {}): string {
+    const cwd = options.cwd ?? process.cwd();
+    const quiet = options.quiet ?? false;
+    const rulesMeta = options.rulesMeta ?? {};
+
+    const files: FileReport[] = [];
+    const rules = new Map<string, RuleSummary>();
+
+    for (const result of results) {
+      const messages = quiet
+        ? result.messages.filter(m => m.severity === 2)
+        : result.messages;
+
+      if (messages.length === 0) continue;
+
+      const relativePath = path.relative(cwd, result.filename);
+      files.push({
+        id: `file-${files.length + 1}`,
+        relativePath,
+        result,
+        messages,
+        ...countMessages(messages),
+      });
+
+      for (const message of messages) {
+        let summary = rules.get(message.ruleId);
+        if (!summary) {
+          summary = { errors: 0, warnings: 0, fixable: 0, files: new Set() };
+          rules.set(message.ruleId, summary);
+        }
+
+        if (message.severity === 2) {
+          summary.errors++;
+        } else {
+          summary.warnings++;
+        }
+        if (message.fix) summary.fixable++;
+        summary.files.add(relativePath);
+      }
+    }
+
+    const totals = countMessages(files.flatMap((file) => file.messages));
+    const problems = totals.errors + totals.warnings;
+    const status = totals.errors > 0 ? 'error' : totals.warnings > 0 ? 'warning' : 'success';
+    const title =
+      problems === 0
+        ? `No problems in ${results.length} ${pluralize('file', results.length)}`
+        : `${problems} ${pluralize('problem', problems)} (${formatCounts(totals)}), ` +
+          `${totals.fixable} fixable with --fix`;
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      '<title>edge-lint report</title>',
+      `<style>${STYLES}</style>`,
+      '</head>',
+      '<body>',
+      `<header class="${status}"><h1>edge-lint report</h1><div>${escapeHtml(title)}</div></header>`,
+      '<main>',
+      ...(files.length > 0
+        ? [
+            renderRuleSummary(rules),
+            renderFileSummary(files),
+            '<h2>Details</h2>',
+            ...files.map((file) => renderFile(file, rulesMeta)),
+          ]
+        : []),
+      '</main>',
+      '</body>',
+      '</html>',
+    ].join('\n');
+  },
+};
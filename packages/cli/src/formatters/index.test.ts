@@ -0,0 +1,207 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import chalk from 'chalk';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { LintResult, RuleMeta } from '@edge-lint/core';
+import type { FormatterOptions } from '../types.js';
+import { formatters, loadFormatter, normalizeFormatterName } from './index.js';
+import { escapeXml } from './xml.js';
+
+const source = [
+  '@if(user)',
+  '  {{user.name}}',
+  '  {{ "<b>, 100%" }}',
+  '@end',
+  '{{ usre }}',
+  '',
+].join('\n');
+
+const results: LintResult[] = [
+  {
+    filename: '/project/views/home.edge',
+    source,
+    messages: [
+      {
+        ruleId: 'mustache-spacing',
+        severity: 1,
+        message: 'Expected spaces inside {{ }}',
+        line: 2,
+        column: 2,
+        endLine: 2,
+        endColumn: 15,
+        fix: { range: [12, 25], text: '{{ user.name }}' },
+      },
+      {
+        ruleId: 'prefer-safe-mustache',
+        severity: 1,
+        message: 'Mustache renders "<b>, 100%",\nwhich looks like HTML',
+        line: 3,
+        column: 2,
+      },
+      {
+        ruleId: 'no-undef',
+        severity: 2,
+        message: '"usre" is not defined',
+        line: 5,
+        column: 3,
+        endLine: 5,
+        endColumn: 7,
+      },
+    ],
+    suppressedMessages: [],
+    errorCount: 1,
+    warningCount: 2,
+    fixableErrorCount: 0,
+    fixableWarningCount: 1,
+  },
+  {
+    filename: '/project/views/clean.edge',
+    source: '<p>{{ title }}</p>\n',
+    messages: [],
+    errorCount: 0,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+  },
+];
+
+const rulesMeta: Record<string, RuleMeta> = {
+  'mustache-spacing': {
+    type: 'layout',
+    fixable: 'whitespace',
+    docs: {
+      description: 'Enforce consistent spacing inside mustaches',
+      category: 'Style',
+      url: 'https://example.com/rules/mustache-spacing',
+    },
+  },
+  'no-undef': {
+    type: 'problem',
+    docs: { description: 'Disallow undefined variables', category: 'Best Practices' },
+  },
+};
+
+const options: FormatterOptions = { cwd: '/project', rulesMeta };
+
+beforeAll(() => {
+  chalk.level = 0;
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('built-in formatters', () => {
+  for (const name of Object.keys(formatters)) {
+    it(`${name} matches the snapshot`, () => {
+      vi.stubEnv('GITHUB_WORKSPACE', '/project');
+      expect(formatters[name]!.format(results, options)).toMatchSnapshot();
+    });
+  }
+
+  it('drops warnings with quiet', () => {
+    vi.stubEnv('GITHUB_WORKSPACE', '/project');
+    for (const formatter of Object.values(formatters)) {
+      const output = formatter.format(results, { ...options, quiet: true });
+      expect(output).toContain('is not defined');
+      expect(output).not.toContain('Expected spaces inside');
+    }
+  });
+});
+
+describe('html', () => {
+  it('only links http(s) docs URLs', () => {
+    const output = formatters.html!.format(results, {
+      ...options,
+      rulesMeta: {
+        'no-undef': {
+          ...rulesMeta['no-undef']!,
+          docs: { ...rulesMeta['no-undef']!.docs, url: 'javascript:alert(1)' },
+        },
+      },
+    });
+
+    expect(output).not.toContain('javascript:');
+    expect(output).toContain('<span class="rule">no-undef</span>');
+  });
+
+  it('draws code frames from the fixed output', () => {
+    const output = formatters.html!.format(
+      [
+        {
+          ...results[1]!,
+          output: '<p>{{ heading }}</p>\n',
+          messages: [
+            { ruleId: 'no-undef', severity: 2, message: 'x', line: 1, column: 6, endColumn: 13 },
+          ],
+          errorCount: 1,
+        },
+      ],
+      options
+    );
+
+    expect(output).toContain('<mark>heading</mark>');
+    expect(output).not.toContain('{{ title }}');
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and strips characters XML does not allow', () => {
+    expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>\u0000\u0008\t\n`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;\t\n'
+    );
+  });
+});
+
+describe('normalizeFormatterName', () => {
+  it('follows the edge-lint-formatter naming convention', () => {
+    expect(normalizeFormatterName('foo')).toBe('edge-lint-formatter-foo');
+    expect(normalizeFormatterName('edge-lint-formatter-foo')).toBe('edge-lint-formatter-foo');
+    expect(normalizeFormatterName('@acme')).toBe('@acme/edge-lint-formatter');
+    expect(normalizeFormatterName('@acme/edge-lint-formatter')).toBe('@acme/edge-lint-formatter');
+    expect(normalizeFormatterName('@acme/foo')).toBe('@acme/edge-lint-formatter-foo');
+    expect(normalizeFormatterName('@acme/edge-lint-formatter-foo')).toBe(
+      '@acme/edge-lint-formatter-foo'
+    );
+  });
+});
+
+describe('loadFormatter', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-lint-formatter-'));
+    fs.writeFileSync(
+      path.join(tmpDir, 'default.mjs'),
+      'export default { format: (results) => `${results.length} results` };\n'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'named.mjs'),
+      'export function format(results) { return `${results.length} named`; }\n'
+    );
+    fs.writeFileSync(path.join(tmpDir, 'invalid.mjs'), 'export const name = "invalid";\n');
+    return () => fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('returns built-in formatters', async () => {
+    expect(await loadFormatter('json', tmpDir)).toBe(formatters.json);
+  });
+
+  it('loads default and named exports from a path', async () => {
+    expect((await loadFormatter('./default.mjs', tmpDir)).format(results)).toBe('2 results');
+    expect((await loadFormatter('./named.mjs', tmpDir)).format(results)).toBe('2 named');
+  });
+
+  it('rejects modules without a format() function', async () => {
+    await expect(loadFormatter('./invalid.mjs', tmpDir)).rejects.toThrow(
+      `Failed to load formatter "./invalid.mjs": it doesn't export a format() function.`
+    );
+  });
+
+  it('names the package it looked for', async () => {
+    await expect(loadFormatter('missing', tmpDir)).rejects.toThrow(
+      'or a path or "edge-lint-formatter-missing" package.'
+    );
+  });
+});
@@ -1,20 +1,46 @@
 /**
  * Formatter exports
+ *
+ * Besides the built-in formatters, --format accepts a path to a module or the
+ * name of a formatter package, following ESLint's conventions:
+ *   ./my-formatter.js            -> resolved from the working directory
+ *   foo                          -> edge-lint-formatter-foo
+ *   @acme                        -> @acme/edge-lint-formatter
+ *   @acme/foo                    -> @acme/edge-lint-formatter-foo
  */
 
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+
 export { stylish } from './stylish.js';
 export { json } from './json.js';
 export { compact } from './compact.js';
+export { sarif } from './sarif.js';
+export { junit } from './junit.js';
+export { checkstyle } from './checkstyle.js';
+export { github } from './github.js';
+export { html } from './html.js';
 
 import type { Formatter } from '../types.js';
 import { stylish } from './stylish.js';
 import { json } from './json.js';
 import { compact } from './compact.js';
+import { sarif } from './sarif.js';
+import { junit } from './junit.js';
+import { checkstyle } from './checkstyle.js';
+import { github } from './github.js';
+import { html } from './html.js';
 
 export const formatters: Record<string, Formatter> = {
   stylish,
   json,
   compact,
+  sarif,
+  junit,
+  checkstyle,
+  github,
+  html,
 };
 
 export function getFormatter(name: string): Formatter {
@@ -24,3 +50,63 @@ export function getFormatter(name: string): Formatter {
   }
   return formatter;
 }
+
+const FORMATTER_PREFIX = 'edge-lint-formatter';
+
+/**
+ * Get the package name for a formatter name
+ */
+export function normalizeFormatterName(name: string): string {
+  if (name.startsWith('@')) {
+    const [scope, pkg] = name.split('/', 2) as [string, string | undefined];
+
+    if (pkg === undefined || pkg === FORMATTER_PREFIX) {
+      return `${scope}/${FORMATTER_PREFIX}`;
+    }
+    return pkg.startsWith(`${FORMATTER_PREFIX}-`)
+      ? `${scope}/${pkg}`
+      : `${scope}/${FORMATTER_PREFIX}-${pkg}`;
+  }
+
+  return name.startsWith(`${FORMATTER_PREFIX}-`) ? name : `${FORMATTER_PREFIX}-${name}`;
+}
+
+/**
+ * Get a built-in formatter, or load one from a path or package
+ *
+ * The module must export a `Formatter`, as its default export or as a named `format` function.
+ */
+export async function loadFormatter(name: string, cwd = process.cwd()): Promise<Formatter> {
+  const builtin = formatters[name];
+  if (builtin) return builtin;
+
+  const isPath = name.startsWith('.') || path.isAbsolute(name) || /\.[cm]?js$/.test(name);
+  let resolvedPath: string;
+  if (isPath) {
+    resolvedPath = path.resolve(cwd, name);
+  } else {
+    const packageName = normalizeFormatterName(name);
+    try {
+      resolvedPath = createRequire(path.join(cwd, 'noop.js')).resolve(packageName);
+    } catch {
+      throw new Error(
+        `Unknown formatter: ${name}. Available: ${Object.keys(formatters).join(', ')}, ` +
+          `or a path or "${packageName}" package.`
+      );
+    }
+  }
+
+  let module: { default?: Partial<Formatter> } & Partial<Formatter>;
+  try {
+    module = (await import(pathToFileURL(resolvedPath).href)) as typeof module;
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    throw new Error(`Failed to load formatter "${name}": ${err.message ?? 'Unknown error'}`);
+  }
+
+  const formatter = typeof module.default?.format === 'function' ? module.default : module;
+  if (typeof formatter.format !== 'function') {
+    throw new Error(`Failed to load formatter "${name}": it doesn't export a format() function.`);
+  }
+  return formatter as Formatter;
+}
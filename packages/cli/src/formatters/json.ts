@@ -17,6 +17,7 @@ export const json: Formatter = {
       return {
         filePath: result.filename,
         messages,
+        suppressedMessages: result.suppressedMessages ?? [],
         errorCount: messages.filter(m => m.severity === 2).length,
         warningCount: messages.filter(m => m.severity === 1).length,
         fixableErrorCount: messages.filter(m => m.severity === 2 && m.fix).length,
@@ -0,0 +1,57 @@
+/**
+ * JUnit formatter - JUnit XML report for CI test dashboards
+ *
+ * Each template is a testsuite and each message a failing testcase. Templates
+ * without messages get one passing testcase so they still count as tests.
+ */
+
+import path from 'node:path';
+import type { LintResult } from '@edge-lint/core';
+import type { Formatter, FormatterOptions } from '../types.js';
+import { escapeXml } from './xml.js';
+
+export const junit: Formatter = {
+  format(results: LintResult[], options: FormatterOptions = {}): string {
+    const cwd = options.cwd ?? process.cwd();
+    const quiet = options.quiet ?? false;
+
+    const output: string[] = ['<?xml version="1.0" encoding="utf-8"?>', '<testsuites>'];
+
+    for (const result of results) {
+      const messages = quiet
+        ? result.messages.filter(m => m.severity === 2)
+        : result.messages;
+
+      const relativePath = escapeXml(path.relative(cwd, result.filename));
+      const errors = messages.filter(m => m.severity === 2).length;
+      const failures = messages.length - errors;
+
+      output.push(
+        `  <testsuite name="${relativePath}" tests="${messages.length || 1}" ` +
+          `errors="${errors}" failures="${failures}" time="0">`
+      );
+
+      if (messages.length === 0) {
+        output.push(`    <testcase name="${relativePath}" classname="${relativePath}" time="0" />`);
+      }
+
+      for (const message of messages) {
+        const type = message.severity === 2 ? 'error' : 'failure';
+        const severity = message.severity === 2 ? 'Error' : 'Warning';
+        const location = `line ${message.line}, col ${message.column + 1}`;
+        const text = `${location}, ${severity} - ${message.message} (${message.ruleId})`;
+
+        output.push(
+          `    <testcase name="edge-lint.${escapeXml(message.ruleId)}" classname="${relativePath}" time="0">`,
+          `      <${type} message="${escapeXml(message.message)}">${escapeXml(text)}</${type}>`,
+          '    </testcase>'
+        );
+      }
+
+      output.push('  </testsuite>');
+    }
+
+    output.push('</testsuites>');
+    return output.join('\n');
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * SARIF formatter - SARIF 2.1.0 log for code-scanning dashboards
+ *
+ * Paths are relative to the working directory (the %SRCROOT% base), lines and
+ * columns are 1-based, and fixes are expressed as character-offset replacements.
+ */
+
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { LintMessage, LintResult } from '@edge-lint/core';
+import type { Formatter, FormatterOptions } from '../types.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SRCROOT = '%SRCROOT%';
+
+interface SarifRule {
+  id: string;
+  shortDescription?: { text: string };
+  helpUri?: string;
+  properties?: { category?: string };
+}
+
+function toUri(filename: string, cwd: string): string {
+  return path.relative(cwd, filename).split(path.sep).map(encodeURIComponent).join('/');
+}
+
+function toRegion(message: LintMessage) {
+  return {
+    startLine: message.line,
+    startColumn: message.column + 1,
+    ...(message.endLine !== undefined && { endLine: message.endLine }),
+    ...(message.endColumn !== undefined && { endColumn: message.endColumn + 1 }),
+  };
+}
+
+export const sarif: Formatter = {
+  format(results: LintResult[], options: FormatterOptions = {}): string {
+    const cwd = options.cwd ?? process.cwd();
+    const quiet = options.quiet ?? false;
+    const rulesMeta = options.rulesMeta ?? {};
+
+    // Rules are listed once, in order of first appearance
+    const rules: SarifRule[] = [];
+    const ruleIndices = new Map<string, number>();
+    const getRuleIndex = (ruleId: string): number | undefined => {
+      if (ruleIndices.has(ruleId)) return ruleIndices.get(ruleId);
+
+      const meta = rulesMeta[ruleId];
+      if (!meta) return undefined;
+
+      const rule: SarifRule = { id: ruleId };
+      if (meta.docs?.description) rule.shortDescription = { text: meta.docs.description };
+      if (meta.docs?.url) rule.helpUri = meta.docs.url;
+      if (meta.docs?.category) rule.properties = { category: meta.docs.category };
+
+      ruleIndices.set(ruleId, rules.length);
+      rules.push(rule);
+      return ruleIndices.get(ruleId);
+    };
+
+    const sarifResults = results.flatMap((result) => {
+      const messages = quiet
+        ? result.messages.filter(m => m.severity === 2)
+        : result.messages;
+      const artifactLocation = { uri: toUri(result.filename, cwd), uriBaseId: SRCROOT };
+
+      return messages.map((message) => {
+        const ruleIndex = getRuleIndex(message.ruleId);
+        return {
+          ruleId: message.ruleId,
+          ...(ruleIndex !== undefined && { ruleIndex }),
+          level: message.severity === 2 ? 'error' : 'warning',
+          message: { text: message.message },
+          locations: [{ physicalLocation: { artifactLocation, region: toRegion(message) } }],
+          ...(message.fix && {
+            fixes: [
+              {
+                description: { text: `Fix ${message.ruleId}` },
+                artifactChanges: [
+                  {
+                    artifactLocation,
+                    replacements: [
+                      {
+                        deletedRegion: {
+                          charOffset: message.fix.range[0],
+                          charLength: message.fix.range[1] - message.fix.range[0],
+                        },
+                        insertedContent: { text: message.fix.text },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          }),
+        };
+      });
+    });
+
+    const log = {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'edge-lint',
+              informationUri: 'https://github.com/watzon/edge-lint',
+              rules,
+            },
+          },
+          originalUriBaseIds: {
+            [SRCROOT]: { uri: pathToFileURL(cwd + path.sep).href },
+          },
+          results: sarifResults,
+        },
+      ],
+    };
+
+    return JSON.stringify(log, null, 2);
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * XML helpers for the junit and checkstyle formatters
+ */
+
+const ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+/**
+ * Escape a string for use in XML text and attribute values
+ *
+ * Control characters that XML 1.0 doesn't allow, even as character references, are dropped.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/[&<>"']/g, (char) => ENTITIES[char]!);
+}
@@ -0,0 +1,64 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createIgnoreMatcher } from './ignore.js';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-lint-ignore-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const file = (relativePath: string) => path.join(tmpDir, relativePath);
+
+describe('createIgnoreMatcher', () => {
+  it('reads .edgelintignore with gitignore syntax', () => {
+    fs.writeFileSync(
+      file('.edgelintignore'),
+      '# generated\ngenerated/\n*.compiled.edge\n!keep.compiled.edge\n'
+    );
+    const isIgnored = createIgnoreMatcher({ cwd: tmpDir });
+
+    expect(isIgnored(file('generated/home.edge'))).toBe(true);
+    expect(isIgnored(file('views/home.compiled.edge'))).toBe(true);
+    expect(isIgnored(file('views/keep.compiled.edge'))).toBe(false);
+    expect(isIgnored(file('views/home.edge'))).toBe(false);
+  });
+
+  it('works without an ignore file', () => {
+    expect(createIgnoreMatcher({ cwd: tmpDir })(file('views/home.edge'))).toBe(false);
+  });
+
+  it('uses --ignore-path instead of .edgelintignore, relative to its directory', () => {
+    fs.writeFileSync(file('.edgelintignore'), 'views/\n');
+    fs.mkdirSync(file('config'));
+    fs.writeFileSync(file('config/lint.ignore'), 'partials/\n');
+    const isIgnored = createIgnoreMatcher({ cwd: tmpDir, ignorePath: 'config/lint.ignore' });
+
+    expect(isIgnored(file('views/home.edge'))).toBe(false);
+    expect(isIgnored(file('config/partials/nav.edge'))).toBe(true);
+    expect(isIgnored(file('partials/nav.edge'))).toBe(false);
+  });
+
+  it('fails when --ignore-path does not exist', () => {
+    expect(() => createIgnoreMatcher({ cwd: tmpDir, ignorePath: 'missing.ignore' })).toThrow(
+      `Cannot read ignore file ${file('missing.ignore')}`
+    );
+  });
+
+  it('applies ignorePatterns relative to the config directory', () => {
+    const isIgnored = createIgnoreMatcher({
+      cwd: tmpDir,
+      ignorePatterns: ['vendor/'],
+      configDir: file('app'),
+    });
+
+    expect(isIgnored(file('app/vendor/mail.edge'))).toBe(true);
+    expect(isIgnored(file('vendor/mail.edge'))).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Ignore files - `.edgelintignore`, --ignore-path and config `ignorePatterns`
+ *
+ * Both use gitignore syntax. Patterns from an ignore file are relative to the
+ * file's directory, and `ignorePatterns` to the config file's directory.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import ignoreModule, { type Ignore } from 'ignore';
+
+// `ignore` is CommonJS, so under NodeNext its default import is the whole module
+const ignore = ignoreModule.default;
+
+export const DEFAULT_IGNORE_FILE = '.edgelintignore';
+
+export interface IgnoreMatcherOptions {
+  /** Working directory the default ignore file is looked up in */
+  cwd: string;
+  /** Ignore file to use instead of `.edgelintignore` (--ignore-path) */
+  ignorePath?: string | undefined;
+  /** `ignorePatterns` from the config */
+  ignorePatterns?: string[] | undefined;
+  /** Directory of the config file, which `ignorePatterns` are relative to */
+  configDir?: string | undefined;
+}
+
+/**
+ * Check whether an absolute file path is ignored
+ */
+export type IgnoreMatcher = (filePath: string) => boolean;
+
+interface IgnoreRules {
+  baseDir: string;
+  rules: Ignore;
+}
+
+/**
+ * Create a matcher from the ignore file and the config's `ignorePatterns`
+ *
+ * A missing `.edgelintignore` is fine; a missing --ignore-path file is an error.
+ */
+export function createIgnoreMatcher(options: IgnoreMatcherOptions): IgnoreMatcher {
+  const sources: IgnoreRules[] = [];
+
+  const ignoreFile = path.resolve(options.cwd, options.ignorePath ?? DEFAULT_IGNORE_FILE);
+  let content: string | undefined;
+  try {
+    content = fs.readFileSync(ignoreFile, 'utf-8');
+  } catch (error) {
+    if (options.ignorePath) {
+      throw new Error(`Cannot read ignore file ${ignoreFile}: ${(error as Error).message}`);
+    }
+  }
+  if (content !== undefined) {
+    sources.push({ baseDir: path.dirname(ignoreFile), rules: ignore().add(content) });
+  }
+
+  if (options.ignorePatterns && options.ignorePatterns.length > 0) {
+    sources.push({
+      baseDir: options.configDir ?? options.cwd,
+      rules: ignore().add(options.ignorePatterns),
+    });
+  }
+
+  return (filePath) =>
+    sources.some(({ baseDir, rules }) => {
+      const relativePath = path.relative(baseDir, filePath);
+      // Patterns don't apply to files outside of their directory
+      if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return false;
+      }
+      return rules.ignores(relativePath.split(path.sep).join('/'));
+    });
+}
@@ -0,0 +1,42 @@
+/**
+ * Worker thread entry for --concurrency
+ *
+ * Loads the config once, then lints each file the main thread sends. If the
+ * config can't be loaded, the error is sent back instead, failing the run.
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { Linter, ConfigError } from '@edge-lint/core';
+import { loadConfig, lintFile } from './commands/lint.js';
+import type { LintWorkerData, LintWorkerRequest, LintWorkerResponse } from './worker-pool.js';
+
+const { configPath, fix, verifyOptions } = workerData as LintWorkerData;
+
+let linter: Linter | undefined;
+try {
+  const { config, plugins } = await loadConfig(configPath);
+  linter = new Linter({ config, plugins });
+} catch (error) {
+  const err = error as Error;
+  parentPort!.postMessage({
+    startupError: {
+      message: err.message,
+      ruleId: error instanceof ConfigError ? error.ruleId : undefined,
+      isConfigError: error instanceof ConfigError,
+    },
+  } satisfies LintWorkerResponse);
+}
+
+if (linter) {
+  const workerLinter = linter;
+  parentPort!.on('message', ({ index, file }: LintWorkerRequest) => {
+    let response: LintWorkerResponse;
+    try {
+      response = { index, result: lintFile(file, workerLinter, fix, verifyOptions) };
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      response = { index, configError: { message: error.message, ruleId: error.ruleId } };
+    }
+    parentPort!.postMessage(response);
+  });
+}
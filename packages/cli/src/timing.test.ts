@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { LintResult } from '@edge-lint/core';
+import { formatTiming, getTimingListSize, isTimingEnabled } from './timing.js';
+
+describe('isTimingEnabled', () => {
+  it('is off when unset, empty, 0 or false', () => {
+    for (const value of [undefined, '', ' ', '0', 'false', 'FALSE']) {
+      expect(isTimingEnabled(value)).toBe(false);
+    }
+  });
+
+  it('is on for other values', () => {
+    for (const value of ['1', 'true', 'all', '20']) {
+      expect(isTimingEnabled(value)).toBe(true);
+    }
+  });
+});
+
+describe('getTimingListSize', () => {
+  it('lists 10 rules unless a larger number or "all" is given', () => {
+    expect(getTimingListSize(undefined)).toBe(10);
+    expect(getTimingListSize('1')).toBe(10);
+    expect(getTimingListSize('25')).toBe(25);
+    expect(getTimingListSize('all')).toBe(Number.POSITIVE_INFINITY);
+  });
+});
+
+describe('formatTiming', () => {
+  it('sums rule times over all results, slowest first', () => {
+    const result = (timing: Record<string, number>): LintResult => ({
+      filename: 'test.edge',
+      messages: [],
+      errorCount: 0,
+      warningCount: 0,
+      fixableErrorCount: 0,
+      fixableWarningCount: 0,
+      timing,
+    });
+
+    const table = formatTiming([
+      result({ 'no-undef': 1, 'valid-expression': 4 }),
+      result({ 'no-undef': 2, 'valid-expression': 3 }),
+    ]);
+
+    expect(table.split('\n')).toEqual([
+      '',
+      'Rule             | Time (ms) | Relative',
+      ':----------------|----------:|---------:',
+      'valid-expression |     7.000 |    70.0%',
+      'no-undef         |     3.000 |    30.0%',
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Rule timing - table of the slowest rules for --timing / EDGE_LINT_TIMING
+ */
+
+import type { LintResult } from '@edge-lint/core';
+
+// Rows shown unless EDGE_LINT_TIMING asks for more
+const MINIMUM_SIZE = 10;
+
+/**
+ * Whether EDGE_LINT_TIMING turns timing on: any non-empty value but "0" and "false"
+ */
+export function isTimingEnabled(value = process.env.EDGE_LINT_TIMING): boolean {
+  const normalized = value?.trim().toLowerCase();
+  return Boolean(normalized) && normalized !== '0' && normalized !== 'false';
+}
+
+/**
+ * Number of rules to list: EDGE_LINT_TIMING=all lists every rule, a number
+ * above 10 lists that many
+ */
+export function getTimingListSize(value = process.env.EDGE_LINT_TIMING): number {
+  if (!value) return MINIMUM_SIZE;
+  if (value.toLowerCase() === 'all') return Number.POSITIVE_INFINITY;
+
+  const size = Number.parseInt(value, 10);
+  return size > MINIMUM_SIZE ? size : MINIMUM_SIZE;
+}
+
+/**
+ * Format the rules that took the longest over all results as a table
+ */
+export function formatTiming(results: LintResult[], size = MINIMUM_SIZE): string {
+  const totals = new Map<string, number>();
+  for (const result of results) {
+    for (const [ruleId, time] of Object.entries(result.timing ?? {})) {
+      totals.set(ruleId, (totals.get(ruleId) ?? 0) + time);
+    }
+  }
+
+  const total = [...totals.values()].reduce((sum, time) => sum + time, 0);
+  const rows = [...totals]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, size)
+    .map(([ruleId, time]) => [
+      ruleId,
+      time.toFixed(3),
+      `${total > 0 ? ((time * 100) / total).toFixed(1) : '0.0'}%`,
+    ]);
+
+  const header = ['Rule', 'Time (ms)', 'Relative'];
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => row[i]!.length))
+  );
+
+  // Rule names are left-aligned, numbers right-aligned
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => (i === 0 ? cell.padEnd(widths[i]!) : cell.padStart(widths[i]!)))
+      .join(' | ');
+  const separator = widths
+    .map((width, i) => (i === 0 ? `:${'-'.repeat(width)}` : `${'-'.repeat(width + 1)}:`))
+    .join('|');
+
+  return ['', formatRow(header), separator, ...rows.map(formatRow)].join('\n');
+}
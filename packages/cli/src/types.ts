@@ -2,15 +2,18 @@
  * CLI type definitions
  */
 
-import type { LintResult } from '@edge-lint/core';
+import type { LintResult, RuleMeta } from '@edge-lint/core';
 
 export interface CLIOptions {
   /** Files or patterns to lint */
   patterns: string[];
   /** Fix issues automatically */
   fix?: boolean;
-  /** Output format */
-  format?: 'stylish' | 'json' | 'compact';
+  /**
+   * Output formats: a built-in formatter name, a module path or a formatter package,
+   * each optionally followed by `:<path>` to write that output to a file
+   */
+  format?: string | string[];
   /** Configuration file path */
   config?: string;
   /** Quiet mode (only errors) */
@@ -21,10 +24,28 @@ export interface CLIOptions {
   ignore?: string[];
   /** Disable ignore patterns */
   noIgnore?: boolean;
+  /** Ignore file to use instead of `.edgelintignore` */
+  ignorePath?: string;
+  /** Report disable directives that suppress nothing */
+  reportUnusedDisableDirectives?: boolean;
   /** Output file for results */
   outputFile?: string;
   /** Enable debug output */
   debug?: boolean;
+  /** Print the slowest rules after linting */
+  timing?: boolean;
+  /** Only lint files that changed since the last run */
+  cache?: boolean;
+  /** Cache file or directory */
+  cacheLocation?: string;
+  /** How to detect changed files: 'metadata' (size and mtime) or 'content' */
+  cacheStrategy?: string;
+  /** Number of worker threads, or 'auto' */
+  concurrency?: string;
+  /** Lint source read from stdin instead of files */
+  stdin?: boolean;
+  /** Filename for the stdin source, used for overrides, ignores and reporting */
+  stdinFilename?: string;
 }
 
 export interface Formatter {
@@ -36,4 +57,6 @@ export interface FormatterOptions {
   cwd?: string;
   /** Show only errors (no warnings) */
   quiet?: boolean;
+  /** Metadata of the rules that reported messages, by rule ID */
+  rulesMeta?: Record<string, RuleMeta>;
 }
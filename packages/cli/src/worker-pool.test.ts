@@ -0,0 +1,29 @@
+import os from 'node:os';
+import { describe, expect, it } from 'vitest';
+import { resolveConcurrency } from './worker-pool.js';
+
+describe('resolveConcurrency', () => {
+  it('lints on the main thread by default', () => {
+    expect(resolveConcurrency(undefined, 10)).toBe(1);
+  });
+
+  it('never uses more threads than files', () => {
+    expect(resolveConcurrency('8', 3)).toBe(3);
+    expect(resolveConcurrency('8', 0)).toBe(1);
+  });
+
+  it('uses half of the cores for "auto"', () => {
+    const cores =
+      typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+
+    expect(resolveConcurrency('auto', 1000)).toBe(Math.max(1, Math.floor(cores / 2)));
+  });
+
+  it('rejects values that are not positive integers', () => {
+    for (const value of ['0', '-1', '1.5', 'many']) {
+      expect(() => resolveConcurrency(value, 10)).toThrow(
+        `Invalid concurrency: ${value}. Expected a positive integer or "auto".`
+      );
+    }
+  });
+});
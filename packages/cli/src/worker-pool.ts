@@ -0,0 +1,171 @@
+/**
+ * Worker pool for --concurrency
+ *
+ * Files are handed out one at a time to worker threads, each with its own
+ * Linter, so a slow file doesn't hold up a whole batch. Results are stored by
+ * file index, so the output order doesn't depend on which worker finishes first.
+ */
+
+import os from 'node:os';
+import { Worker } from 'node:worker_threads';
+import { ConfigError, type LintResult, type VerifyOptions } from '@edge-lint/core';
+
+/**
+ * Data each worker starts with
+ */
+export interface LintWorkerData {
+  /** Config file to load, or undefined to look it up like the main thread */
+  configPath?: string | undefined;
+  fix: boolean;
+  verifyOptions: VerifyOptions;
+}
+
+/**
+ * A file sent to a worker
+ */
+export interface LintWorkerRequest {
+  index: number;
+  file: string;
+}
+
+/**
+ * A worker's reply: the file's result, or a config error that fails the run
+ *
+ * A worker whose setup fails (loading the config or creating its Linter) sends a
+ * startup error instead, which also fails the run.
+ */
+export type LintWorkerResponse =
+  | { index: number; result: LintResult }
+  | { index: number; configError: { message: string; ruleId?: string | undefined } }
+  | {
+      startupError: {
+        message: string;
+        ruleId?: string | undefined;
+        isConfigError: boolean;
+      };
+    };
+
+/**
+ * Resolve --concurrency to a number of threads for a set of files
+ *
+ * "auto" uses half of the available cores. Never more threads than files.
+ */
+export function resolveConcurrency(value: string | undefined, fileCount: number): number {
+  if (value === undefined) return 1;
+
+  let concurrency: number;
+  if (value === 'auto') {
+    // os.availableParallelism() was added in Node.js 18.14
+    const cores =
+      typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+    concurrency = Math.floor(cores / 2);
+  } else {
+    concurrency = Number(value);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency: ${value}. Expected a positive integer or "auto".`);
+    }
+  }
+
+  return Math.max(1, Math.min(concurrency, fileCount));
+}
+
+/**
+ * Lint files in worker threads, returning results in the order of `files`
+ *
+ * A worker that crashes reports an error for the file it was linting; the
+ * other workers pick up the remaining files. Config errors and workers that
+ * fail to start fail the run, as they would without workers.
+ */
+export async function lintFilesInWorkers(
+  files: string[],
+  concurrency: number,
+  workerData: LintWorkerData
+): Promise<LintResult[]> {
+  const results: Array<LintResult | undefined> = new Array(files.length);
+  const workerUrl = new URL('./lint-worker.js', import.meta.url);
+  let nextIndex = 0;
+  let fatalError: Error | null = null;
+
+  const runWorker = () =>
+    new Promise<void>((resolve) => {
+      const worker = new Worker(workerUrl, { workerData });
+      let current: number | null = null;
+
+      const finish = () => {
+        void worker.terminate();
+        resolve();
+      };
+
+      const sendNext = () => {
+        if (fatalError || nextIndex >= files.length) {
+          finish();
+          return;
+        }
+        current = nextIndex++;
+        worker.postMessage({ index: current, file: files[current]! } satisfies LintWorkerRequest);
+      };
+
+      worker.on('message', (response: LintWorkerResponse) => {
+        current = null;
+        if ('startupError' in response) {
+          const { message, ruleId, isConfigError } = response.startupError;
+          fatalError ??= isConfigError ? new ConfigError(message, ruleId) : new Error(message);
+          finish();
+          return;
+        }
+        if ('configError' in response) {
+          fatalError ??= new ConfigError(response.configError.message, response.configError.ruleId);
+          finish();
+          return;
+        }
+        results[response.index] = response.result;
+        sendNext();
+      });
+
+      worker.on('error', (error) => {
+        if (current !== null) {
+          results[current] = createWorkerErrorResult(files[current]!, error);
+          current = null;
+        }
+        resolve();
+      });
+
+      // A worker that exits without replying (e.g. after a startup error) frees its slot
+      worker.on('exit', () => {
+        if (current !== null) {
+          results[current] = createWorkerErrorResult(files[current]!, new Error('Worker exited'));
+        }
+        resolve();
+      });
+
+      sendNext();
+    });
+
+  await Promise.all(Array.from({ length: concurrency }, runWorker));
+  if (fatalError) throw fatalError;
+
+  // Files left over when every worker crashed
+  return results.map(
+    (result, index) =>
+      result ?? createWorkerErrorResult(files[index]!, new Error('No worker was left to lint it'))
+  );
+}
+
+function createWorkerErrorResult(file: string, error: Error): LintResult {
+  return {
+    filename: file,
+    messages: [
+      {
+        ruleId: 'file-error',
+        severity: 2,
+        message: `Worker failed: ${error.message}`,
+        line: 1,
+        column: 0,
+      },
+    ],
+    errorCount: 1,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+  };
+}
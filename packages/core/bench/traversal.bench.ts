@@ -0,0 +1,100 @@
+/**
+ * Benchmark: rule traversal on large layouts
+ *
+ * Compares walking the tokens once per rule with the linter's single walk
+ * over the merged rule visitors, using every built-in rule. Run with
+ * `pnpm bench` in packages/core.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { bench, describe } from 'vitest';
+import {
+  Linter,
+  SourceCode,
+  RuleContext,
+  allConfig,
+  builtinRules,
+  tokenize,
+  traverse,
+  mergeVisitors,
+  type RuleVisitor,
+} from '../src/index.js';
+
+// Block tags used by the fixtures, registered as the linter does
+const TAGS = {
+  if: { block: true, seekable: true },
+  elseif: { block: false, seekable: true },
+  else: { block: false, seekable: false },
+  unless: { block: true, seekable: true },
+  each: { block: true, seekable: true },
+  let: { block: false, seekable: true },
+  include: { block: false, seekable: true },
+  includeIf: { block: false, seekable: true },
+  component: { block: true, seekable: true },
+  slot: { block: true, seekable: true },
+  svg: { block: false, seekable: true },
+  vite: { block: false, seekable: true },
+  stack: { block: false, seekable: true },
+};
+
+const fixturesDir = new URL('./fixtures/', import.meta.url);
+const fixtures = readdirSync(fixturesDir)
+  .filter((name) => name.endsWith('.edge'))
+  .map((name) => ({ name, source: readFileSync(new URL(name, fixturesDir), 'utf8') }));
+
+// Every fixture in one template, repeated, to stand in for a very large layout
+fixtures.push({
+  name: 'all fixtures x10',
+  source: Array.from({ length: 10 }, () => fixtures.map((f) => f.source).join('\n')).join('\n'),
+});
+
+/**
+ * Create a visitor for every built-in rule
+ */
+function createRuleVisitors(sourceCode: SourceCode, filename: string): RuleVisitor[] {
+  return Object.keys(allConfig).map((ruleId) => {
+    const rule = builtinRules[ruleId]!;
+    const context = new RuleContext({
+      ruleId,
+      severity: 2,
+      options: [],
+      sourceCode,
+      filename,
+      settings: {},
+      parserOptions: {},
+      messages: rule.meta.messages,
+    });
+    return { ruleId, visitor: rule.create(context) };
+  });
+}
+
+for (const { name, source } of fixtures) {
+  const { tokens } = tokenize(source, { filename: name, tags: TAGS, recover: true });
+  if (!tokens) throw new Error(`Could not tokenize ${name}`);
+
+  const createSourceCode = () => new SourceCode({ text: source, tokens, filename: name });
+
+  describe(name, () => {
+    bench('one walk per rule', () => {
+      const sourceCode = createSourceCode();
+      for (const { visitor } of createRuleVisitors(sourceCode, name)) {
+        traverse(sourceCode, visitor);
+      }
+    });
+
+    bench('single walk, merged visitors', () => {
+      const sourceCode = createSourceCode();
+      traverse(sourceCode, mergeVisitors(createRuleVisitors(sourceCode, name), () => {}));
+    });
+  });
+}
+
+describe('Linter#verify with all rules', () => {
+  const linter = new Linter({ config: { rules: allConfig } });
+
+  for (const { name, source } of fixtures) {
+    bench(name, () => {
+      linter.verify(source, name);
+    });
+  }
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { validateConfig, validateRuleConfig } from './config-validator.js';
+import { ConfigError } from './errors.js';
+import { Linter } from './linter.js';
+import { builtinRules } from './rules/index.js';
+import type { EdgeLintConfig } from './types/index.js';
+
+const rules = new Map(Object.entries(builtinRules));
+
+function validate(config: EdgeLintConfig): () => void {
+  return () => validateConfig(config, rules);
+}
+
+describe('validateConfig', () => {
+  it('accepts valid severities and options', () => {
+    expect(
+      validate({
+        rules: {
+          'no-empty-mustache': 'error',
+          'mustache-spacing': ['warn', 'always'],
+          'no-unknown-tag': [1, { allowedTags: ['card'] }],
+          'valid-expression': 0,
+        },
+      })
+    ).not.toThrow();
+  });
+
+  it('names the rule, the option path and the allowed values', () => {
+    expect(validate({ rules: { 'mustache-spacing': ['warn', 'alwayss'] } })).toThrow(
+      'Configuration for rule "mustache-spacing" is invalid: options[0] must be one of "always", "never" (received "alwayss").'
+    );
+  });
+
+  it('reports nested type errors and unexpected properties', () => {
+    expect(validate({ rules: { 'no-unknown-tag': ['warn', { allowedTags: 'card' }] } })).toThrow(
+      'Configuration for rule "no-unknown-tag" is invalid: options[0].allowedTags must be of type array (received "card").'
+    );
+    expect(validate({ rules: { 'no-unknown-tag': ['warn', { allowed: ['card'] }] } })).toThrow(
+      'Configuration for rule "no-unknown-tag" is invalid: options[0] has unexpected property "allowed". Expected one of: allowedTags.'
+    );
+  });
+
+  it('rejects extra options and invalid severities', () => {
+    expect(validate({ rules: { 'mustache-spacing': ['warn', 'always', 'never'] } })).toThrow(
+      'Configuration for rule "mustache-spacing" is invalid: expected at most 1 option(s) (received 2).'
+    );
+    expect(validate({ rules: { 'no-empty-mustache': 'warning' as 'warn' } })).toThrow(
+      'Configuration for rule "no-empty-mustache" is invalid: severity must be one of "off", "warn", "error", 0, 1 or 2 (received "warning").'
+    );
+  });
+
+  it('rejects unknown rules, pointing plugin rules to "plugins"', () => {
+    expect(validate({ rules: { 'no-such-rule': 'error' } })).toThrow(
+      'Definition for rule "no-such-rule" was not found.'
+    );
+    expect(validate({ rules: { 'acme/no-such-rule': 'error' } })).toThrow(
+      'Definition for rule "acme/no-such-rule" was not found. Make sure the "acme" plugin is listed in "plugins".'
+    );
+  });
+
+  it('validates the rules of overrides', () => {
+    expect(
+      validate({ overrides: [{ files: '*.edge', rules: { 'mustache-spacing': ['warn', 'x'] } }] })
+    ).toThrow(ConfigError);
+  });
+
+  it('accepts rules without a schema and no options', () => {
+    expect(() =>
+      validateRuleConfig('no-empty-mustache', builtinRules['no-empty-mustache']!, 'warn')
+    ).not.toThrow();
+  });
+});
+
+describe('Linter config validation', () => {
+  it('throws a ConfigError with the rule ID from verify()', () => {
+    const linter = new Linter({ config: { rules: { 'mustache-spacing': ['warn', 'alwayss'] } } });
+
+    expect(() => linter.verify('{{ a }}', 'test.edge')).toThrow(
+      expect.objectContaining({ name: 'ConfigError', ruleId: 'mustache-spacing' })
+    );
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Config validator - Checks rule configs against the registered rules
+ *
+ * Unknown rule IDs, invalid severities and options that don't match a rule's
+ * `meta.schema` raise a ConfigError naming the rule, the offending option
+ * and what was expected.
+ */
+
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { ConfigError } from './errors.js';
+import type { EdgeLintConfig, Rule, RuleConfig } from './types/index.js';
+
+const VALID_SEVERITIES: unknown[] = ['off', 'warn', 'error', 0, 1, 2];
+
+const ajv = new Ajv({ verbose: true });
+
+// Compiled option validators, or null for rules without a schema
+const validators = new WeakMap<Rule, ValidateFunction | null>();
+
+/**
+ * Validate the rules of a config and of all its overrides
+ */
+export function validateConfig(config: EdgeLintConfig, rules: Map<string, Rule>): void {
+  validateRuleConfigs(config.rules ?? {}, rules);
+
+  for (const override of config.overrides ?? []) {
+    validateRuleConfigs(override.rules ?? {}, rules);
+  }
+}
+
+/**
+ * Validate a set of rule configs
+ */
+export function validateRuleConfigs(
+  ruleConfigs: Record<string, RuleConfig>,
+  rules: Map<string, Rule>
+): void {
+  for (const [ruleId, ruleConfig] of Object.entries(ruleConfigs)) {
+    const rule = rules.get(ruleId);
+    if (!rule) {
+      throw new ConfigError(getUnknownRuleMessage(ruleId), ruleId);
+    }
+    validateRuleConfig(ruleId, rule, ruleConfig);
+  }
+}
+
+/**
+ * Validate a single rule's severity and options
+ */
+export function validateRuleConfig(ruleId: string, rule: Rule, ruleConfig: RuleConfig): void {
+  const [severity, ...options] = Array.isArray(ruleConfig) ? ruleConfig : [ruleConfig];
+
+  if (!VALID_SEVERITIES.includes(severity)) {
+    throw new ConfigError(
+      `Configuration for rule "${ruleId}" is invalid: severity must be one of ` +
+        `"off", "warn", "error", 0, 1 or 2 (received ${JSON.stringify(severity)}).`,
+      ruleId
+    );
+  }
+
+  const validate = getValidator(rule);
+  if (validate && !validate(options)) {
+    const error = validate.errors![0]!;
+    throw new ConfigError(
+      `Configuration for rule "${ruleId}" is invalid: ${formatError(error)}`,
+      ruleId
+    );
+  }
+}
+
+/**
+ * Get (and cache) the compiled options validator for a rule
+ */
+function getValidator(rule: Rule): ValidateFunction | null {
+  let validate = validators.get(rule);
+  if (validate === undefined) {
+    const schema = rule.meta.schema;
+    validate =
+      schema && schema.length > 0
+        ? ajv.compile({ type: 'array', items: schema, minItems: 0, maxItems: schema.length })
+        : null;
+    validators.set(rule, validate);
+  }
+  return validate;
+}
+
+/**
+ * Describe a schema error with the option path and expected shape
+ */
+function formatError(error: ErrorObject): string {
+  const optionPath = `options${error.dataPath}`;
+  const received = `(received ${JSON.stringify(error.data)})`;
+  const params = error.params as Record<string, unknown>;
+
+  switch (error.keyword) {
+    case 'enum': {
+      const allowed = (params.allowedValues as unknown[]).map((value) => JSON.stringify(value));
+      return `${optionPath} must be one of ${allowed.join(', ')} ${received}.`;
+    }
+
+    case 'type':
+      return `${optionPath} must be of type ${String(params.type)} ${received}.`;
+
+    case 'additionalProperties': {
+      const properties = Object.keys(
+        (error.parentSchema as { properties?: object } | undefined)?.properties ?? {}
+      );
+      const expected =
+        properties.length > 0 ? ` Expected one of: ${properties.join(', ')}.` : '';
+      return `${optionPath} has unexpected property "${String(params.additionalProperty)}".${expected}`;
+    }
+
+    case 'maxItems':
+      return `expected at most ${String(params.limit)} option(s) (received ${(error.data as unknown[]).length}).`;
+
+    default:
+      return `${optionPath} ${error.message ?? 'is invalid'} ${received}.`;
+  }
+}
+
+/**
+ * Message for rule IDs that are not registered
+ */
+function getUnknownRuleMessage(ruleId: string): string {
+  const slash = ruleId.lastIndexOf('/');
+  if (slash === -1) {
+    return `Definition for rule "${ruleId}" was not found.`;
+  }
+
+  const plugin = ruleId.slice(0, slash);
+  return `Definition for rule "${ruleId}" was not found. Make sure the "${plugin}" plugin is listed in "plugins".`;
+}
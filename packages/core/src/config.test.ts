@@ -0,0 +1,126 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getConfigForFile, resolveConfig } from './config.js';
+import { ConfigError } from './errors.js';
+import type { EdgeLintConfig } from './types/index.js';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-lint-config-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeConfig(relativePath: string, config: EdgeLintConfig): string {
+  const filePath = path.join(tmpDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(config));
+  return filePath;
+}
+
+describe('resolveConfig', () => {
+  it('merges extended configs before the config itself', () => {
+    writeConfig('base.json', {
+      rules: { 'no-empty-mustache': 'error', 'mustache-spacing': ['warn', 'never'] },
+    });
+    const filePath = writeConfig('.edgelintrc.json', {
+      extends: './base.json',
+      rules: { 'mustache-spacing': 'error' },
+    });
+
+    const config = resolveConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')), { filePath });
+
+    // A severity-only override keeps the extended options
+    expect(config.rules).toEqual({
+      'no-empty-mustache': 'error',
+      'mustache-spacing': ['error', 'never'],
+    });
+  });
+
+  it('resolves built-in configs', () => {
+    const config = resolveConfig({ extends: 'edge-lint:recommended' });
+
+    expect(Object.keys(config.rules ?? {}).length).toBeGreaterThan(0);
+  });
+
+  it('detects extends cycles and names the chain', () => {
+    writeConfig('a.json', { extends: './b.json' });
+    writeConfig('b.json', { extends: './a.json' });
+    const filePath = path.join(tmpDir, 'a.json');
+
+    expect(() => resolveConfig({ extends: './b.json' }, { filePath })).toThrow(ConfigError);
+    expect(() => resolveConfig({ extends: './b.json' }, { filePath })).toThrow(
+      `Circular "extends" detected: ${filePath} -> ${path.join(tmpDir, 'b.json')} -> ${filePath}`
+    );
+  });
+
+  it('allows the same config to be extended twice without a cycle', () => {
+    writeConfig('shared.json', { rules: { 'no-empty-mustache': 'error' } });
+    writeConfig('a.json', { extends: './shared.json' });
+    writeConfig('b.json', { extends: './shared.json' });
+
+    const config = resolveConfig({ extends: ['./a.json', './b.json'] }, { cwd: tmpDir });
+
+    expect(config.rules).toEqual({ 'no-empty-mustache': 'error' });
+  });
+
+  it('rejects unknown configs', () => {
+    expect(() => resolveConfig({ extends: 'edge-lint:nope' })).toThrow(
+      'Unknown config "edge-lint:nope".'
+    );
+    expect(() => resolveConfig({ extends: 'plugin:acme/recommended' })).toThrow(ConfigError);
+  });
+});
+
+describe('getConfigForFile', () => {
+  const config: EdgeLintConfig = {
+    rules: { 'no-empty-mustache': 'off' },
+    overrides: [
+      {
+        files: 'views/**/*.edge',
+        excludedFiles: 'views/vendor/**',
+        rules: { 'no-empty-mustache': 'error' },
+      },
+      { files: '*.email.edge', rules: { 'no-empty-mustache': 'warn' } },
+    ],
+  };
+
+  it('applies overrides in declaration order, relative to cwd', () => {
+    const cwd = path.join(tmpDir, 'project');
+
+    expect(getConfigForFile(config, path.join(cwd, 'views/home.edge'), cwd).rules).toEqual({
+      'no-empty-mustache': 'error',
+    });
+    expect(getConfigForFile(config, path.join(cwd, 'views/welcome.email.edge'), cwd).rules).toEqual(
+      { 'no-empty-mustache': 'warn' }
+    );
+    expect(getConfigForFile(config, path.join(cwd, 'views/vendor/x.edge'), cwd).rules).toEqual({
+      'no-empty-mustache': 'off',
+    });
+    expect(getConfigForFile(config, path.join(cwd, 'home.edge'), cwd).overrides).toBeUndefined();
+  });
+
+  it('matches overrides relative to the config file that declares them', () => {
+    const filePath = writeConfig('app/.edgelintrc.json', config);
+    const resolved = resolveConfig(config, { filePath });
+    const file = path.join(tmpDir, 'app/views/home.edge');
+
+    // The same result whatever the working directory
+    for (const cwd of [tmpDir, path.join(tmpDir, 'app'), path.join(tmpDir, 'app/views')]) {
+      expect(getConfigForFile(resolved, file, cwd).rules).toEqual({ 'no-empty-mustache': 'error' });
+    }
+  });
+
+  it('does not apply overrides to files outside the config directory', () => {
+    const filePath = writeConfig('app/.edgelintrc.json', config);
+    const resolved = resolveConfig(config, { filePath });
+
+    const file = path.join(tmpDir, 'other/welcome.email.edge');
+    expect(getConfigForFile(resolved, file, tmpDir).rules).toEqual({ 'no-empty-mustache': 'off' });
+  });
+});
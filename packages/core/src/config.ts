@@ -0,0 +1,350 @@
+/**
+ * Config - Shareable configs, config files and `extends` resolution
+ *
+ * Supported `extends` entries:
+ * - 'edge-lint:recommended', 'edge-lint:strict', 'edge-lint:all'
+ * - Relative or absolute paths to JSON or CommonJS config files
+ * - 'plugin:<plugin>/<config>' for configs provided by plugins
+ *
+ * Entries are applied in order, so later entries override earlier ones and
+ * the extending config overrides everything it extends.
+ *
+ * `overrides` are applied per file by getConfigForFile(), in declaration order.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { minimatch } from 'minimatch';
+import type {
+  ConfigOverride,
+  EdgeLintConfig,
+  EdgeLintPlugin,
+  RuleConfig,
+} from './types/index.js';
+import { recommendedConfig, strictConfig, allConfig } from './rules/index.js';
+import { getPluginConfigs, loadPlugins, normalizePluginName } from './plugins.js';
+import { ConfigError } from './errors.js';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Built-in shareable configs
+ */
+export const builtinConfigs: Record<string, EdgeLintConfig> = {
+  'edge-lint:recommended': { rules: recommendedConfig },
+  'edge-lint:strict': { rules: strictConfig },
+  'edge-lint:all': { rules: allConfig },
+};
+
+export interface ResolveConfigOptions {
+  /** Directory used to resolve relative `extends` paths (defaults to process.cwd()) */
+  cwd?: string;
+  /** Path of the config file being resolved (relative paths resolve from its directory) */
+  filePath?: string;
+  /** Configs provided by plugins, keyed by "<plugin>/<config>" */
+  pluginConfigs?: Record<string, EdgeLintConfig>;
+}
+
+/**
+ * A resolved config together with the plugins it uses
+ */
+export interface LoadedConfig {
+  config: EdgeLintConfig;
+  plugins: Record<string, EdgeLintPlugin>;
+}
+
+/**
+ * Config file names, in lookup order
+ */
+export const CONFIG_FILE_NAMES = [
+  '.edgelintrc.json',
+  '.edgelintrc.js',
+  '.edgelintrc.mjs',
+  'edge-lint.config.json',
+  'edge-lint.config.js',
+  'edge-lint.config.mjs',
+];
+
+/**
+ * Find the config file in a directory
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | undefined {
+  for (const name of CONFIG_FILE_NAMES) {
+    const fullPath = path.resolve(cwd, name);
+    if (fs.existsSync(fullPath)) {
+      return fullPath;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a config's `extends` chain into a single flat config
+ */
+export function resolveConfig(
+  config: EdgeLintConfig,
+  options: ResolveConfigOptions = {}
+): EdgeLintConfig {
+  const baseDir = options.filePath
+    ? path.dirname(path.resolve(options.filePath))
+    : options.cwd ?? process.cwd();
+  const chain = options.filePath ? [path.resolve(options.filePath)] : [];
+
+  return resolveExtends(config, baseDir, chain, options);
+}
+
+/**
+ * Load a config file synchronously
+ *
+ * JSON files are parsed directly; JavaScript files are loaded with require(),
+ * so they must be CommonJS unless the Node.js version can require ES modules.
+ */
+export function loadConfigFile(filePath: string): EdgeLintConfig {
+  if (!fs.existsSync(filePath)) {
+    throw new ConfigError(`Cannot find config file "${filePath}"`);
+  }
+
+  if (path.extname(filePath) === '.json') {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    try {
+      return JSON.parse(content) as EdgeLintConfig;
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      throw new ConfigError(`Failed to parse config file "${filePath}": ${err.message ?? 'Unknown error'}`);
+    }
+  }
+
+  try {
+    const module = require(filePath) as { default?: EdgeLintConfig } & EdgeLintConfig;
+    return module.default ?? module;
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    throw new ConfigError(`Failed to load config file "${filePath}": ${err.message ?? 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load a config file asynchronously, supporting ES module config files
+ */
+export async function importConfigFile(filePath: string): Promise<EdgeLintConfig> {
+  if (path.extname(filePath) === '.json') {
+    return loadConfigFile(filePath);
+  }
+
+  try {
+    const module = (await import(pathToFileURL(path.resolve(filePath)).href)) as {
+      default?: EdgeLintConfig;
+    } & EdgeLintConfig;
+    return module.default ?? module;
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    throw new ConfigError(`Failed to load config file "${filePath}": ${err.message ?? 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load the plugins a config uses and resolve its `extends` chain
+ *
+ * Plugins listed by the config itself are loaded first so their configs can
+ * be extended; plugins introduced by extended configs are loaded afterwards.
+ */
+export async function resolveConfigWithPlugins(
+  config: EdgeLintConfig,
+  options: ResolveConfigOptions = {}
+): Promise<LoadedConfig> {
+  const cwd = options.filePath
+    ? path.dirname(path.resolve(options.filePath))
+    : options.cwd ?? process.cwd();
+
+  const plugins = await loadPlugins(config.plugins ?? [], { cwd });
+  const resolved = resolveConfig(config, {
+    ...options,
+    pluginConfigs: { ...options.pluginConfigs, ...getPluginConfigs(plugins) },
+  });
+
+  const missing = (resolved.plugins ?? []).filter(
+    (name) => !plugins[normalizePluginName(name).namespace]
+  );
+  Object.assign(plugins, await loadPlugins(missing, { cwd }));
+
+  return { config: resolved, plugins };
+}
+
+/**
+ * Merge two resolved configs, with `override` taking precedence
+ */
+export function mergeConfigs(base: EdgeLintConfig, override: EdgeLintConfig): EdgeLintConfig {
+  return {
+    rules: mergeRules(base.rules ?? {}, override.rules ?? {}),
+    plugins: [...new Set([...(base.plugins ?? []), ...(override.plugins ?? [])])],
+    settings: { ...base.settings, ...override.settings },
+    parserOptions: {
+      ...base.parserOptions,
+      ...override.parserOptions,
+      tags: {
+        ...base.parserOptions?.tags,
+        ...override.parserOptions?.tags,
+      },
+    },
+    ignorePatterns: [...(base.ignorePatterns ?? []), ...(override.ignorePatterns ?? [])],
+    overrides: [...(base.overrides ?? []), ...(override.overrides ?? [])],
+  };
+}
+
+/**
+ * Apply the `overrides` matching a file to a resolved config
+ *
+ * Patterns are matched against the filename relative to the override's
+ * `basePath` (the directory of the config file that declares it), or `cwd` for
+ * overrides that weren't resolved from a file. Patterns without a slash match
+ * the file's basename. Overrides don't apply to files outside their directory.
+ */
+export function getConfigForFile(
+  config: EdgeLintConfig,
+  filename: string,
+  cwd: string = process.cwd()
+): EdgeLintConfig {
+  const { overrides = [], ...baseConfig } = config;
+
+  let fileConfig: EdgeLintConfig = baseConfig;
+  for (const override of overrides) {
+    const relativePath = toRelativePath(filename, override.basePath ?? cwd);
+    if (relativePath.startsWith('../') || !matchesOverride(override, relativePath)) continue;
+    fileConfig = mergeConfigs(fileConfig, {
+      rules: override.rules,
+      settings: override.settings,
+      parserOptions: override.parserOptions,
+    });
+  }
+
+  return fileConfig;
+}
+
+/**
+ * Check whether an override applies to a file path relative to its base path
+ */
+function matchesOverride(override: ConfigOverride, relativePath: string): boolean {
+  const files = toArray(override.files);
+  const excludedFiles = toArray(override.excludedFiles);
+
+  return (
+    files.some((pattern) => matchesPattern(pattern, relativePath)) &&
+    !excludedFiles.some((pattern) => matchesPattern(pattern, relativePath))
+  );
+}
+
+function matchesPattern(pattern: string, relativePath: string): boolean {
+  return minimatch(relativePath, pattern.replace(/^\.\//, ''), { dot: true, matchBase: true });
+}
+
+function toRelativePath(filename: string, cwd: string): string {
+  const relativePath = path.isAbsolute(filename) ? path.relative(cwd, filename) : filename;
+  return relativePath.split(path.sep).join('/').replace(/^\.\//, '');
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Merge rule configs. A severity-only override keeps the base options.
+ */
+function mergeRules(
+  base: Record<string, RuleConfig>,
+  override: Record<string, RuleConfig>
+): Record<string, RuleConfig> {
+  const rules = { ...base };
+
+  for (const [ruleId, ruleConfig] of Object.entries(override)) {
+    const baseConfig = rules[ruleId];
+    if (!Array.isArray(ruleConfig) && Array.isArray(baseConfig)) {
+      rules[ruleId] = [ruleConfig, ...baseConfig.slice(1)];
+    } else {
+      rules[ruleId] = ruleConfig;
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Recursively resolve `extends`, tracking the chain to detect cycles
+ */
+function resolveExtends(
+  config: EdgeLintConfig,
+  baseDir: string,
+  chain: string[],
+  options: ResolveConfigOptions
+): EdgeLintConfig {
+  const { extends: extendsOption, ...ownConfig } = config;
+  const entries =
+    extendsOption === undefined
+      ? []
+      : Array.isArray(extendsOption)
+        ? extendsOption
+        : [extendsOption];
+
+  let resolved: EdgeLintConfig = {};
+
+  for (const entry of entries) {
+    const extended = loadExtendedConfig(entry, baseDir, options);
+
+    if (chain.includes(extended.id)) {
+      throw new ConfigError(
+        `Circular "extends" detected: ${[...chain, extended.id].join(' -> ')}`
+      );
+    }
+
+    resolved = mergeConfigs(
+      resolved,
+      resolveExtends(extended.config, extended.baseDir, [...chain, extended.id], options)
+    );
+  }
+
+  // Remember where each override was declared, so its globs match from there
+  const overrides = ownConfig.overrides?.map((override) => ({
+    ...override,
+    basePath: override.basePath ?? baseDir,
+  }));
+
+  return mergeConfigs(resolved, overrides ? { ...ownConfig, overrides } : ownConfig);
+}
+
+/**
+ * Load a single `extends` entry
+ */
+function loadExtendedConfig(
+  entry: string,
+  baseDir: string,
+  options: ResolveConfigOptions
+): { id: string; config: EdgeLintConfig; baseDir: string } {
+  if (entry.startsWith('edge-lint:')) {
+    const config = builtinConfigs[entry];
+    if (!config) {
+      throw new ConfigError(
+        `Unknown config "${entry}". Available: ${Object.keys(builtinConfigs).join(', ')}`
+      );
+    }
+    return { id: entry, config, baseDir };
+  }
+
+  if (entry.startsWith('plugin:')) {
+    const config = options.pluginConfigs?.[entry.slice('plugin:'.length)];
+    if (!config) {
+      throw new ConfigError(`Config "${entry}" was not found. Make sure the plugin is listed in "plugins".`);
+    }
+    return { id: entry, config, baseDir };
+  }
+
+  if (entry.startsWith('.') || path.isAbsolute(entry)) {
+    const filePath = path.resolve(baseDir, entry);
+    return { id: filePath, config: loadConfigFile(filePath), baseDir: path.dirname(filePath) };
+  }
+
+  throw new ConfigError(
+    `Cannot resolve config "${entry}". Use "edge-lint:<name>", "plugin:<plugin>/<config>" or a relative path.`
+  );
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from './linter.js';
+import type { EdgeLintConfig, VerifyOptions } from './types/index.js';
+
+const config: EdgeLintConfig = {
+  rules: {
+    'no-empty-mustache': 'error',
+    'mustache-spacing': ['warn', 'always'],
+  },
+};
+
+function verify(source: string, options?: VerifyOptions) {
+  const linter = new Linter({ config });
+  const messages = linter.verify(source, 'test.edge', undefined, options);
+  return { linter, messages };
+}
+
+describe('disable directives', () => {
+  it('suppresses the next line only with edge-lint-disable-next-line', () => {
+    const { linter, messages } = verify(
+      '{{-- edge-lint-disable-next-line no-empty-mustache --}}\n{{ }}\n{{ }}\n'
+    );
+
+    expect(messages.map((message) => [message.ruleId, message.line])).toEqual([
+      ['no-empty-mustache', 3],
+    ]);
+    expect(linter.getSuppressedMessages()).toMatchObject([
+      {
+        ruleId: 'no-empty-mustache',
+        line: 2,
+        suppressions: [{ kind: 'directive', justification: '' }],
+      },
+    ]);
+  });
+
+  it('suppresses a range between disable and enable, keeping the justification', () => {
+    const { linter, messages } = verify(
+      [
+        '{{-- edge-lint-disable no-empty-mustache -- legacy template --}}',
+        '{{ }}',
+        '{{-- edge-lint-enable no-empty-mustache --}}',
+        '{{ }}',
+      ].join('\n')
+    );
+
+    expect(messages.map((message) => [message.ruleId, message.line])).toEqual([
+      ['no-empty-mustache', 4],
+    ]);
+    expect(linter.getSuppressedMessages()).toMatchObject([
+      {
+        ruleId: 'no-empty-mustache',
+        line: 2,
+        suppressions: [{ justification: 'legacy template' }],
+      },
+    ]);
+  });
+
+  it('suppresses all rules with a bare edge-lint-disable-line', () => {
+    const { messages } = verify('{{a}} {{ }} {{-- edge-lint-disable-line --}}\n');
+
+    expect(messages).toEqual([]);
+  });
+
+  it('only suppresses the listed rules', () => {
+    const { messages } = verify('{{a}} {{ }} {{-- edge-lint-disable-line no-empty-mustache --}}\n');
+
+    expect(messages.map((message) => message.ruleId)).toEqual([
+      'mustache-spacing',
+      'mustache-spacing',
+    ]);
+  });
+
+  it('does not report unused directives by default', () => {
+    const { messages } = verify(
+      '{{-- edge-lint-disable-next-line no-empty-mustache --}}\n{{ "a" }}\n'
+    );
+
+    expect(messages).toEqual([]);
+  });
+
+  it('reports unused directives with a fix that removes the comment', () => {
+    const source = '{{-- edge-lint-disable-next-line no-empty-mustache --}}\n{{ "a" }}\n';
+    const { messages } = verify(source, { reportUnusedDisableDirectives: 'error' });
+
+    expect(messages).toMatchObject([
+      {
+        ruleId: 'unused-disable-directive',
+        severity: 2,
+        message:
+          "Unused edge-lint-disable-next-line directive (no problems were reported from 'no-empty-mustache').",
+        line: 1,
+        column: 0,
+        fix: { range: [0, 56], text: '' },
+      },
+    ]);
+
+    const linter = new Linter({ config });
+    const result = linter.verifyAndFix(source, 'test.edge', undefined, {
+      reportUnusedDisableDirectives: 'error',
+    });
+    expect(result.output).toBe('{{ "a" }}\n');
+  });
+
+  it('removes only the unused rules from a directive that is partly used', () => {
+    const source = '{{ }} {{-- edge-lint-disable-line no-empty-mustache, no-unknown-tag --}}\n';
+    const { messages } = verify(source, { reportUnusedDisableDirectives: 'warn' });
+
+    expect(messages).toMatchObject([
+      {
+        ruleId: 'unused-disable-directive',
+        severity: 1,
+        message:
+          "Unused edge-lint-disable-line directive (no problems were reported from 'no-unknown-tag').",
+      },
+    ]);
+
+    const linter = new Linter({ config });
+    const result = linter.verifyAndFix(source, 'test.edge', undefined, {
+      reportUnusedDisableDirectives: 'warn',
+    });
+    expect(result.output).toBe('{{ }} {{-- edge-lint-disable-line no-empty-mustache --}}\n');
+    expect(result.messages).toEqual([]);
+  });
+});
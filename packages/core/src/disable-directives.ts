@@ -0,0 +1,403 @@
+/**
+ * Disable directives - Inline comments that suppress lint messages
+ *
+ * Supported Edge comments:
+ *   {{-- edge-lint-disable --}}                         Disable all rules until re-enabled
+ *   {{-- edge-lint-enable --}}                          Re-enable all rules
+ *   {{-- edge-lint-disable no-unknown-tag --}}          Disable specific rules (comma-separated)
+ *   {{-- edge-lint-disable-line no-unknown-tag --}}     Disable rules for the current line
+ *   {{-- edge-lint-disable-next-line no-unknown-tag --}} Disable rules for the following line
+ *
+ * Text after " -- " is kept as the justification for the suppression.
+ *
+ * Disable directives that suppress nothing can be reported (and removed with
+ * --fix) via the reportUnusedDisableDirectives verify option.
+ */
+
+import type { SourceCode } from './source-code.js';
+import type {
+  CommentToken,
+  Fix,
+  LintMessage,
+  SuppressedLintMessage,
+} from './types/index.js';
+
+/**
+ * Kinds of disable directives
+ */
+export type DisableDirectiveType = 'disable' | 'enable' | 'disable-line' | 'disable-next-line';
+
+/**
+ * A single parsed directive (one per rule listed in the comment)
+ */
+export interface DisableDirective {
+  /** Directive kind */
+  type: DisableDirectiveType;
+  /** Rule the directive targets, or null for all rules */
+  ruleId: string | null;
+  /** Line of the comment (1-indexed) */
+  line: number;
+  /** Column of the comment (0-indexed) */
+  column: number;
+  /** Justification given after " -- " */
+  justification: string;
+  /** Comment token the directive was read from */
+  comment: CommentToken;
+}
+
+/**
+ * Result of applying directives to a list of messages
+ */
+export interface ApplyDirectivesResult {
+  /** Messages that were not suppressed */
+  messages: LintMessage[];
+  /** Messages that were suppressed by a directive */
+  suppressedMessages: SuppressedLintMessage[];
+  /** Disable directives that did not suppress any message */
+  unusedDirectives: DisableDirective[];
+}
+
+/**
+ * Rule ID used for unused directive reports
+ */
+export const UNUSED_DIRECTIVE_RULE_ID = 'unused-disable-directive';
+
+// Matches the directive keyword at the start of a comment body
+const DIRECTIVE_PATTERN =
+  /^\s*edge-lint-(disable-next-line|disable-line|disable|enable)(?=\s|$)([\s\S]*)$/;
+
+// Separates the rule list from an optional justification
+const JUSTIFICATION_SEPARATOR = /\s-{2,}\s/;
+
+// Edge comment delimiters (excluded from comment token locations)
+const COMMENT_OPEN = '{{--';
+const COMMENT_CLOSE = '--}}';
+
+/**
+ * A disable or enable event at a position in the source
+ */
+interface DirectiveEvent {
+  type: 'disable' | 'enable';
+  line: number;
+  column: number;
+  ruleId: string | null;
+  directive: DisableDirective;
+}
+
+/**
+ * Parse disable directives from every comment in the source
+ */
+export function getDisableDirectives(sourceCode: SourceCode): DisableDirective[] {
+  const directives: DisableDirective[] = [];
+
+  for (const token of sourceCode.getTokensByType('comment')) {
+    const comment = token as unknown as CommentToken;
+    directives.push(...parseDirectiveComment(comment));
+  }
+
+  return directives;
+}
+
+/**
+ * Parse a single comment into directives
+ */
+function parseDirectiveComment(comment: CommentToken): DisableDirective[] {
+  const match = comment.value.match(DIRECTIVE_PATTERN);
+  if (!match) return [];
+
+  const type = match[1] as DisableDirectiveType;
+  const [ruleList = '', ...rest] = (match[2] ?? '').split(JUSTIFICATION_SEPARATOR);
+  const justification = rest.join(' -- ').trim();
+
+  const ruleIds = ruleList
+    .split(',')
+    .map((ruleId) => ruleId.trim())
+    .filter((ruleId) => ruleId !== '');
+
+  const base = {
+    type,
+    line: comment.loc.start.line,
+    column: comment.loc.start.col,
+    justification,
+    comment,
+  };
+
+  if (ruleIds.length === 0) {
+    return [{ ...base, ruleId: null }];
+  }
+
+  return ruleIds.map((ruleId) => ({ ...base, ruleId }));
+}
+
+/**
+ * Filter messages through disable directives
+ *
+ * Messages must be sorted by location. Block directives (disable/enable)
+ * and line directives are processed independently; a message is suppressed
+ * if either pass suppresses it.
+ */
+export function applyDisableDirectives(
+  messages: LintMessage[],
+  directives: DisableDirective[]
+): ApplyDirectivesResult {
+  if (directives.length === 0) {
+    return { messages, suppressedMessages: [], unusedDirectives: [] };
+  }
+
+  const blockEvents: DirectiveEvent[] = [];
+  const lineEvents: DirectiveEvent[] = [];
+
+  for (const directive of directives) {
+    switch (directive.type) {
+      case 'disable':
+      case 'enable':
+        blockEvents.push({
+          type: directive.type,
+          line: directive.line,
+          column: directive.column,
+          ruleId: directive.ruleId,
+          directive,
+        });
+        break;
+
+      case 'disable-line':
+      case 'disable-next-line': {
+        const line =
+          directive.type === 'disable-line'
+            ? directive.line
+            : directive.comment.loc.end.line + 1;
+        lineEvents.push(
+          { type: 'disable', line, column: 0, ruleId: directive.ruleId, directive },
+          { type: 'enable', line: line + 1, column: 0, ruleId: directive.ruleId, directive }
+        );
+        break;
+      }
+    }
+  }
+
+  const blockSuppressions = processEvents(messages, blockEvents);
+  const lineSuppressions = processEvents(messages, lineEvents);
+
+  const result: ApplyDirectivesResult = {
+    messages: [],
+    suppressedMessages: [],
+    unusedDirectives: [],
+  };
+  const usedDirectives = new Set<DisableDirective>();
+
+  for (const message of messages) {
+    const suppressedBy = [
+      ...(blockSuppressions.get(message) ?? []),
+      ...(lineSuppressions.get(message) ?? []),
+    ];
+
+    if (suppressedBy.length === 0) {
+      result.messages.push(message);
+    } else {
+      for (const directive of suppressedBy) {
+        usedDirectives.add(directive);
+      }
+      result.suppressedMessages.push({
+        ...message,
+        suppressions: suppressedBy.map((directive) => ({
+          kind: 'directive',
+          justification: directive.justification,
+        })),
+      });
+    }
+  }
+
+  result.unusedDirectives = directives.filter(
+    (directive) => directive.type !== 'enable' && !usedDirectives.has(directive)
+  );
+
+  return result;
+}
+
+/**
+ * Create lint messages (with fixes) for unused disable directives
+ *
+ * A comment whose directives are all unused is reported once and fixed by
+ * deleting the comment. Otherwise each unused rule is reported separately
+ * and fixed by removing it from the rule list.
+ */
+export function getUnusedDirectiveMessages(
+  unusedDirectives: DisableDirective[],
+  sourceCode: SourceCode,
+  severity: 1 | 2
+): LintMessage[] {
+  // Group unused directives by the comment they came from
+  const byComment = new Map<CommentToken, DisableDirective[]>();
+  for (const directive of unusedDirectives) {
+    const group = byComment.get(directive.comment) ?? [];
+    group.push(directive);
+    byComment.set(directive.comment, group);
+  }
+
+  const messages: LintMessage[] = [];
+
+  for (const [comment, unused] of byComment) {
+    const range = sourceCode.getRange(comment);
+    if (!range) continue;
+
+    const location = {
+      line: comment.loc.start.line,
+      column: Math.max(0, comment.loc.start.col - COMMENT_OPEN.length),
+      endLine: comment.loc.end.line,
+      endColumn: comment.loc.end.col,
+    };
+    const keyword = `edge-lint-${unused[0]!.type}`;
+    const ruleIds = parseDirectiveComment(comment).map((directive) => directive.ruleId);
+    const unusedRuleIds = new Set(unused.map((directive) => directive.ruleId));
+
+    if (ruleIds.every((ruleId) => unusedRuleIds.has(ruleId))) {
+      const ruleList = ruleIds.filter((ruleId): ruleId is string => ruleId !== null);
+      messages.push({
+        ruleId: UNUSED_DIRECTIVE_RULE_ID,
+        severity,
+        message:
+          ruleList.length > 0
+            ? `Unused ${keyword} directive (no problems were reported from ${ruleList.map((ruleId) => `'${ruleId}'`).join(' or ')}).`
+            : `Unused ${keyword} directive (no problems were reported).`,
+        ...location,
+        fix: removeCommentFix(sourceCode, range),
+      });
+      continue;
+    }
+
+    for (const directive of unused) {
+      const remaining = ruleIds.filter((ruleId): ruleId is string => {
+        return ruleId !== null && ruleId !== directive.ruleId;
+      });
+      messages.push({
+        ruleId: UNUSED_DIRECTIVE_RULE_ID,
+        severity,
+        message: `Unused ${keyword} directive (no problems were reported from '${directive.ruleId}').`,
+        ...location,
+        fix: {
+          range: [range[0], range[1] - COMMENT_CLOSE.length],
+          text: rebuildDirectiveBody(comment.value, keyword, remaining, directive.justification),
+        },
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Remove a comment, taking the whole line with it when nothing else is on it
+ */
+function removeCommentFix(sourceCode: SourceCode, range: [number, number]): Fix {
+  const text = sourceCode.text;
+  const commentStart = range[0] - COMMENT_OPEN.length;
+  const commentEnd = range[1];
+
+  let lineStart = commentStart;
+  while (lineStart > 0 && isInlineWhitespace(text[lineStart - 1])) {
+    lineStart--;
+  }
+  let lineEnd = commentEnd;
+  while (lineEnd < text.length && isInlineWhitespace(text[lineEnd])) {
+    lineEnd++;
+  }
+
+  const startsLine = lineStart === 0 || text[lineStart - 1] === '\n';
+  const endsLine = lineEnd === text.length || text[lineEnd] === '\n' || text[lineEnd] === '\r';
+
+  if (startsLine && endsLine) {
+    // Comment is alone on its line - remove the line and its line break
+    if (text[lineEnd] === '\r') lineEnd++;
+    if (text[lineEnd] === '\n') lineEnd++;
+    return { range: [lineStart, lineEnd], text: '' };
+  }
+
+  if (startsLine) {
+    // Keep the indentation for the content that follows
+    return { range: [commentStart, lineEnd], text: '' };
+  }
+
+  return { range: [lineStart, commentEnd], text: '' };
+}
+
+function isInlineWhitespace(char: string | undefined): boolean {
+  return char === ' ' || char === '\t';
+}
+
+/**
+ * Rebuild a directive comment body with a new rule list
+ */
+function rebuildDirectiveBody(
+  value: string,
+  keyword: string,
+  ruleIds: string[],
+  justification: string
+): string {
+  const leading = value.match(/^\s*/)?.[0] ?? '';
+  const trailing = value.match(/\s*$/)?.[0] ?? '';
+  const reason = justification ? ` -- ${justification}` : '';
+  return `${leading}${keyword} ${ruleIds.join(', ')}${reason}${trailing}`;
+}
+
+/**
+ * Walk messages in order, tracking which rules are disabled at each position
+ */
+function processEvents(
+  messages: LintMessage[],
+  events: DirectiveEvent[]
+): Map<LintMessage, DisableDirective[]> {
+  const suppressions = new Map<LintMessage, DisableDirective[]>();
+  if (events.length === 0) return suppressions;
+
+  const sortedEvents = [...events].sort(
+    (a, b) => a.line - b.line || a.column - b.column
+  );
+
+  const disabledRules = new Map<string, DisableDirective>();
+  const enabledRules = new Set<string>();
+  let disableAll: DisableDirective | null = null;
+  let nextEvent = 0;
+
+  for (const message of messages) {
+    // Apply every event at or before this message
+    while (nextEvent < sortedEvents.length) {
+      const event = sortedEvents[nextEvent]!;
+      if (
+        event.line > message.line ||
+        (event.line === message.line && event.column > message.column)
+      ) {
+        break;
+      }
+      nextEvent++;
+
+      if (event.type === 'disable') {
+        if (event.ruleId === null) {
+          disableAll = event.directive;
+          disabledRules.clear();
+          enabledRules.clear();
+        } else {
+          enabledRules.delete(event.ruleId);
+          disabledRules.set(event.ruleId, event.directive);
+        }
+      } else if (event.ruleId === null) {
+        disableAll = null;
+        disabledRules.clear();
+        enabledRules.clear();
+      } else if (disableAll) {
+        enabledRules.add(event.ruleId);
+        disabledRules.delete(event.ruleId);
+      } else {
+        disabledRules.delete(event.ruleId);
+      }
+    }
+
+    const ruleDirective = disabledRules.get(message.ruleId);
+    if (ruleDirective) {
+      suppressions.set(message, [ruleDirective]);
+    } else if (disableAll && !enabledRules.has(message.ruleId)) {
+      suppressions.set(message, [disableAll]);
+    }
+  }
+
+  return suppressions;
+}
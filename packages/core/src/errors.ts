@@ -0,0 +1,18 @@
+/**
+ * Errors - Error classes thrown by the linter
+ */
+
+/**
+ * Thrown when a config is invalid: unknown rules, bad rule options,
+ * unresolvable `extends` entries or plugins that cannot be loaded
+ */
+export class ConfigError extends Error {
+  /** Rule the error relates to, if any */
+  readonly ruleId?: string;
+
+  constructor(message: string, ruleId?: string) {
+    super(message);
+    this.name = 'ConfigError';
+    this.ruleId = ruleId;
+  }
+}
@@ -0,0 +1,35 @@
+declare module 'espree' {
+  import type { Program } from 'estree';
+
+  export interface ParseOptions {
+    ecmaVersion?: number | 'latest';
+    sourceType?: 'script' | 'module';
+    ecmaFeatures?: {
+      jsx?: boolean;
+      globalReturn?: boolean;
+      impliedStrict?: boolean;
+    };
+    range?: boolean;
+    loc?: boolean;
+    tokens?: boolean;
+    comment?: boolean;
+  }
+
+  export interface Token {
+    type: string;
+    value: string;
+    start: number;
+    end: number;
+    range?: [number, number];
+  }
+
+  /** Error thrown for syntax errors */
+  export interface ParseError extends SyntaxError {
+    index: number;
+    lineNumber: number;
+    column: number;
+  }
+
+  export function parse(code: string, options?: ParseOptions): Program;
+  export function tokenize(code: string, options?: ParseOptions): Token[];
+}
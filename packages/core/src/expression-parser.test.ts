@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseExpression, parseTagArgument } from './expression-parser.js';
+
+describe('parseExpression', () => {
+  it('parses a single expression', () => {
+    expect(parseExpression(' user.name ').ast).toMatchObject({
+      type: 'MemberExpression',
+      object: { type: 'Identifier', name: 'user' },
+    });
+    expect(parseExpression('await load(`a${b}`, /}/g)').error).toBeUndefined();
+  });
+
+  it('reports the offset of the error in the expression', () => {
+    expect(parseExpression('a b').error).toEqual({ message: 'Unexpected token b', offset: 2 });
+    expect(parseExpression(' user. ').error).toEqual({
+      message: 'Unexpected end of expression',
+      offset: 6,
+    });
+  });
+
+  it('rejects code that closes the wrapping paren', () => {
+    expect(parseExpression('a) || (b').error).toEqual({
+      message: 'Unexpected token )',
+      offset: 1,
+    });
+    expect(parseExpression('a; b').error).toBeDefined();
+  });
+
+  it('keeps a trailing line comment from swallowing the expression end', () => {
+    expect(parseExpression('a // note').error).toBeUndefined();
+  });
+});
+
+describe('parseTagArgument', () => {
+  it('checks the @each grammar', () => {
+    expect(parseTagArgument('each', 'item in items').error).toBeUndefined();
+    expect(parseTagArgument('each', '(item, index) in items').error).toBeUndefined();
+    expect(parseTagArgument('each', ' items').error).toEqual({
+      message: 'Expected "item in list" or "(item, index) in list"',
+      offset: 1,
+    });
+  });
+
+  it('checks the @let and @assign grammars', () => {
+    expect(parseTagArgument('let', 'total = 0').error).toBeUndefined();
+    expect(parseTagArgument('let', '{ a, b } = pair').error).toBeUndefined();
+    expect(parseTagArgument('let', 'user.name = 1').error?.message).toBe('Expected "name = value"');
+    expect(parseTagArgument('assign', 'user.name = 1').error).toBeUndefined();
+    expect(parseTagArgument('let', 'total += 1').error?.message).toBe('Expected "name = value"');
+  });
+
+  it('parses other tags as plain expressions', () => {
+    expect(parseTagArgument('if', 'a in b').error).toBeUndefined();
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Expression parser - Parses mustache and tag arguments with espree
+ *
+ * Arguments are parsed as a single parenthesized JavaScript expression.
+ * Some tags have their own argument grammar on top of that:
+ *   @each(item in list), @each((item, index) in list)
+ *   @let(name = value), @assign(name = value)
+ *
+ * Error offsets and AST ranges are relative to the start of the argument
+ * text plus one (for the wrapping paren); SourceCode#getExpressionAst()
+ * maps them back to template offsets.
+ */
+
+import * as espree from 'espree';
+import type { ParseError } from 'espree';
+import type { Expression, Node, Program } from 'estree';
+
+/**
+ * Syntax error found while parsing an expression
+ */
+export interface ExpressionParseError {
+  /** Parser message */
+  message: string;
+  /** Offset of the error in the expression text */
+  offset: number;
+}
+
+/**
+ * Result of parsing an expression: either an AST or an error
+ */
+export type ExpressionParseResult =
+  | { ast: Expression; error?: undefined }
+  | { ast?: undefined; error: ExpressionParseError };
+
+/**
+ * Checks a parsed tag argument, returning an error message if it doesn't fit
+ */
+type ArgumentGrammar = (expression: Expression) => string | null;
+
+const PARSE_OPTIONS: espree.ParseOptions = {
+  ecmaVersion: 'latest',
+  // Module code allows top-level `await`, which Edge templates support
+  sourceType: 'module',
+  range: true,
+};
+
+const TAG_GRAMMARS: Record<string, ArgumentGrammar> = {
+  each: (expression) =>
+    isEachExpression(expression) ? null : 'Expected "item in list" or "(item, index) in list"',
+  let: (expression) =>
+    expression.type === 'AssignmentExpression' &&
+    expression.operator === '=' &&
+    ['Identifier', 'ObjectPattern', 'ArrayPattern'].includes(expression.left.type)
+      ? null
+      : 'Expected "name = value"',
+  assign: (expression) =>
+    expression.type === 'AssignmentExpression' &&
+    expression.operator === '=' &&
+    ['Identifier', 'MemberExpression'].includes(expression.left.type)
+      ? null
+      : 'Expected "name = value"',
+};
+
+/**
+ * Parse a single JavaScript expression
+ */
+export function parseExpression(code: string): ExpressionParseResult {
+  // The newline keeps a trailing line comment from swallowing the closing paren
+  const wrapped = `(${code}\n)`;
+
+  let program: Program;
+  try {
+    program = espree.parse(wrapped, PARSE_OPTIONS);
+  } catch (error: unknown) {
+    return { error: toExpressionError(error as ParseError, code) };
+  }
+
+  const statement = program.body[0];
+  if (
+    program.body.length !== 1 ||
+    statement?.type !== 'ExpressionStatement' ||
+    // An expression starting at the wrapping paren means the code closed it, e.g. `a) || (b`
+    statement.expression.range?.[0] === 0
+  ) {
+    return { error: findUnbalancedParen(code) };
+  }
+
+  return { ast: statement.expression };
+}
+
+/**
+ * Parse a tag argument, applying the tag's argument grammar
+ */
+export function parseTagArgument(tagName: string, code: string): ExpressionParseResult {
+  const result = parseExpression(code);
+  if (result.error) return result;
+
+  const grammar = TAG_GRAMMARS[tagName];
+  const message = grammar?.(result.ast);
+  if (message) {
+    return { error: { message, offset: code.length - code.trimStart().length } };
+  }
+
+  return result;
+}
+
+/**
+ * Call `enter` for every node of an expression, depth first
+ */
+export function traverseExpression(
+  node: Node,
+  enter: (node: Node, parent: Node | null) => void,
+  parent: Node | null = null
+): void {
+  enter(node, parent);
+  forEachChildNode(node, (child) => traverseExpression(child, enter, node));
+}
+
+/**
+ * Call `callback` for each direct child of a node
+ */
+export function forEachChildNode(node: Node, callback: (child: Node) => void): void {
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'parent' || key === 'loc' || key === 'range') continue;
+
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) callback(item);
+      }
+    } else if (isNode(value)) {
+      callback(value);
+    }
+  }
+}
+
+/**
+ * Check whether an identifier reads (or writes) a variable, as opposed to
+ * naming a property, e.g. `name` in `user.name` or `{ name: 1 }`
+ */
+export function isReferenceIdentifier(node: Node, parent: Node | null): boolean {
+  if (node.type !== 'Identifier' || !parent) return node.type === 'Identifier';
+
+  switch (parent.type) {
+    case 'MemberExpression':
+      return parent.object === node || parent.computed;
+    case 'Property':
+      // Shorthand properties (`{ name }`) reference `name` through their value
+      return parent.value === node || (parent.computed && parent.key === node);
+    case 'MethodDefinition':
+    case 'PropertyDefinition':
+      return parent.computed && parent.key === node;
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      return false;
+    case 'MetaProperty':
+      return false;
+    default:
+      return true;
+  }
+}
+
+function isNode(value: unknown): value is Node {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === 'string'
+  );
+}
+
+/**
+ * Convert an espree error to an offset in the unwrapped code
+ */
+function toExpressionError(error: ParseError, code: string): ExpressionParseError {
+  const message = error.message ?? 'Syntax error';
+  const end = code.trimEnd().length;
+  const offset = (error.index ?? 1) - 1;
+
+  // Errors at (or past) the wrapping paren mean the expression stopped early
+  if (offset >= end) {
+    return { message: 'Unexpected end of expression', offset: end };
+  }
+
+  return { message, offset: Math.max(0, offset) };
+}
+
+/**
+ * Find the first closing paren without a matching opening paren
+ */
+function findUnbalancedParen(code: string): ExpressionParseError {
+  let depth = 0;
+
+  try {
+    for (const token of espree.tokenize(code, PARSE_OPTIONS)) {
+      if (token.type !== 'Punctuator') continue;
+      if (token.value === '(') depth++;
+      if (token.value === ')' && --depth < 0) {
+        return { message: 'Unexpected token )', offset: token.start };
+      }
+    }
+  } catch {
+    // Fall through to a generic error
+  }
+
+  return { message: 'Expected a single expression', offset: 0 };
+}
+
+/**
+ * Check for `item in list` or `(item, index) in list`
+ */
+function isEachExpression(expression: Expression): boolean {
+  if (expression.type !== 'BinaryExpression' || expression.operator !== 'in') {
+    return false;
+  }
+
+  const left = expression.left;
+  const isBinding = (node: { type: string }) =>
+    ['Identifier', 'ObjectExpression', 'ArrayExpression'].includes(node.type);
+
+  if (left.type === 'SequenceExpression') {
+    return left.expressions.length === 2 && left.expressions.every(isBinding);
+  }
+  return isBinding(left);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { builtinGlobals, getConfiguredGlobals } from './globals.js';
+
+describe('getConfiguredGlobals', () => {
+  it('always includes the JavaScript and Edge globals', () => {
+    const globals = getConfiguredGlobals({});
+
+    expect(globals).toEqual(expect.arrayContaining(['Math', 'JSON', 'html', 'js', '$props']));
+    expect(globals).not.toContain('auth');
+  });
+
+  it('enables the built-in sets listed in edge/globalSets', () => {
+    const globals = getConfiguredGlobals({ 'edge/globalSets': ['adonisjs', 'unknown'] });
+
+    expect(globals).toEqual(expect.arrayContaining([...builtinGlobals.adonisjs!]));
+    expect(builtinGlobals.adonisjs).toEqual([
+      'auth',
+      'request',
+      'route',
+      'csrfField',
+      'flashMessages',
+      't',
+    ]);
+  });
+
+  it('adds names from an edge/globals list', () => {
+    expect(getConfiguredGlobals({ 'edge/globals': ['user', 'posts', 1] })).toEqual(
+      expect.arrayContaining(['user', 'posts'])
+    );
+  });
+
+  it('adds and removes names from an edge/globals object', () => {
+    const globals = getConfiguredGlobals({
+      'edge/globals': { user: true, console: false },
+    });
+
+    expect(globals).toContain('user');
+    expect(globals).not.toContain('console');
+  });
+});
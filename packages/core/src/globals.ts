@@ -0,0 +1,123 @@
+/**
+ * Globals - Variables templates can read without declaring them
+ *
+ * The `builtin` and `edge` sets are always available. Other sets are
+ * enabled with `settings['edge/globalSets']`, e.g. ["adonisjs"], and
+ * project-specific names are listed in `settings['edge/globals']`.
+ */
+
+/**
+ * Built-in global sets, by name
+ */
+export const builtinGlobals: Record<string, readonly string[]> = {
+  // JavaScript built-ins available to compiled templates
+  builtin: [
+    'AggregateError',
+    'Array',
+    'ArrayBuffer',
+    'Atomics',
+    'BigInt',
+    'BigInt64Array',
+    'BigUint64Array',
+    'Boolean',
+    'DataView',
+    'Date',
+    'Error',
+    'EvalError',
+    'FinalizationRegistry',
+    'Float32Array',
+    'Float64Array',
+    'Function',
+    'Infinity',
+    'Int8Array',
+    'Int16Array',
+    'Int32Array',
+    'Intl',
+    'JSON',
+    'Map',
+    'Math',
+    'NaN',
+    'Number',
+    'Object',
+    'Promise',
+    'Proxy',
+    'RangeError',
+    'ReferenceError',
+    'Reflect',
+    'RegExp',
+    'Set',
+    'SharedArrayBuffer',
+    'String',
+    'Symbol',
+    'SyntaxError',
+    'TypeError',
+    'URIError',
+    'URL',
+    'URLSearchParams',
+    'Uint8Array',
+    'Uint8ClampedArray',
+    'Uint16Array',
+    'Uint32Array',
+    'WeakMap',
+    'WeakRef',
+    'WeakSet',
+    'console',
+    'decodeURI',
+    'decodeURIComponent',
+    'encodeURI',
+    'encodeURIComponent',
+    'globalThis',
+    'isFinite',
+    'isNaN',
+    'parseFloat',
+    'parseInt',
+    'structuredClone',
+    'undefined',
+  ],
+
+  // Provided by Edge to every template
+  edge: ['html', 'js', '$props', '$slots', '$context'],
+
+  // Shared with views by AdonisJS
+  adonisjs: ['auth', 'request', 'route', 'csrfField', 'flashMessages', 't'],
+};
+
+// Sets available without configuration
+const DEFAULT_SETS = ['builtin', 'edge'];
+
+/**
+ * Get the global variable names for a config's settings
+ *
+ * `settings['edge/globalSets']` lists extra built-in sets to enable.
+ * `settings['edge/globals']` is a list of names or an object mapping names
+ * to `true` or `false`; `false` removes a name, even a built-in one.
+ */
+export function getConfiguredGlobals(settings: Readonly<Record<string, unknown>>): string[] {
+  const names = new Set<string>();
+
+  const extraSets = settings['edge/globalSets'];
+  const setNames = [...DEFAULT_SETS, ...(Array.isArray(extraSets) ? extraSets : [])];
+  for (const setName of setNames) {
+    if (typeof setName !== 'string' || !Object.hasOwn(builtinGlobals, setName)) continue;
+    for (const name of builtinGlobals[setName]!) {
+      names.add(name);
+    }
+  }
+
+  const globals = settings['edge/globals'];
+  if (Array.isArray(globals)) {
+    for (const name of globals) {
+      if (typeof name === 'string') names.add(name);
+    }
+  } else if (globals && typeof globals === 'object') {
+    for (const [name, enabled] of Object.entries(globals)) {
+      if (enabled === false) {
+        names.delete(name);
+      } else {
+        names.add(name);
+      }
+    }
+  }
+
+  return [...names];
+}
@@ -9,6 +9,59 @@ export { Linter, type LinterOptions } from './linter.js';
 export { SourceCode, type SourceCodeOptions } from './source-code.js';
 export { RuleContext, type RuleContextOptions } from './rule-context.js';
 export { Fixer, applyFix, applyFixes, mergeFixes, getNonOverlappingFixes } from './fixer.js';
+export {
+  getDisableDirectives,
+  applyDisableDirectives,
+  getUnusedDirectiveMessages,
+  UNUSED_DIRECTIVE_RULE_ID,
+  type DisableDirective,
+  type DisableDirectiveType,
+} from './disable-directives.js';
+export {
+  builtinConfigs,
+  resolveConfig,
+  loadConfigFile,
+  mergeConfigs,
+  getConfigForFile,
+  findConfigFile,
+  importConfigFile,
+  resolveConfigWithPlugins,
+  CONFIG_FILE_NAMES,
+  type ResolveConfigOptions,
+  type LoadedConfig,
+} from './config.js';
+export {
+  validateConfig,
+  validateRuleConfigs,
+  validateRuleConfig,
+} from './config-validator.js';
+export { ConfigError } from './errors.js';
+export {
+  parseExpression,
+  parseTagArgument,
+  traverseExpression,
+  forEachChildNode,
+  isReferenceIdentifier,
+  type ExpressionParseError,
+  type ExpressionParseResult,
+} from './expression-parser.js';
+export { ScopeManager, type ScopeManagerOptions } from './scope-manager.js';
+export { buildTemplateAst, type TemplateAst } from './template-ast.js';
+export { traverse, mergeVisitors, type RuleVisitor } from './traverser.js';
+export {
+  tokenize,
+  type TokenizeOptions,
+  type TokenizeResult,
+  type TemplateSyntaxError,
+} from './tokenizer.js';
+export { builtinGlobals, getConfiguredGlobals } from './globals.js';
+export {
+  loadPlugin,
+  loadPlugins,
+  getPluginConfigs,
+  normalizePluginName,
+  type LoadPluginOptions,
+} from './plugins.js';
 
 // Types
 export type {
@@ -16,10 +69,40 @@ export type {
   Severity,
   RuleConfig,
   EdgeLintConfig,
+  ConfigOverride,
+  EdgeLintPlugin,
   ParserOptions,
+  VerifyOptions,
   NormalizedSeverity,
   ParsedRuleConfig,
 
+  // Expression ASTs (ESTree)
+  Expression,
+  Identifier,
+  ESTreeNode,
+
+  // Scope analysis
+  Scope,
+  ScopeType,
+  Variable,
+  VariableKind,
+  VariableDefinition,
+  Reference,
+  ScopeManager as IScopeManager,
+
+  // Template AST
+  Template,
+  TemplateNode,
+  TemplateBlockNode,
+  TemplateChild,
+  IfBlock,
+  ElseIfClause,
+  ElseClause,
+  EachBlock,
+  ComponentBlock,
+  SlotBlock,
+  Block,
+
   // Rules
   Rule,
   RuleMeta,
@@ -34,6 +117,8 @@ export type {
   // Messages and results
   LintMessage,
   LintResult,
+  SuppressedLintMessage,
+  Suppression,
   Fix,
   Suggestion,
 
@@ -55,7 +140,7 @@ export type {
 } from './types/index.js';
 
 // Rules
-export { builtinRules, recommendedConfig, allConfig } from './rules/index.js';
+export { builtinRules, recommendedConfig, strictConfig, allConfig } from './rules/index.js';
 
 // Individual rules (for direct access)
 export { noEmptyMustache } from './rules/syntax/no-empty-mustache.js';
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from './linter.js';
+
+describe('Linter timing', () => {
+  const config = { rules: { 'no-empty-mustache': 'error', 'mustache-spacing': 'warn' } } as const;
+
+  it('measures each enabled rule only when asked to', () => {
+    const linter = new Linter({ config });
+
+    linter.verify('{{ a }}', 'test.edge');
+    expect(linter.getRuleTimes()).toEqual({});
+
+    linter.verify('{{ a }}', 'test.edge', undefined, { timing: true });
+    const times = linter.getRuleTimes();
+    expect(Object.keys(times).sort()).toEqual(['mustache-spacing', 'no-empty-mustache']);
+    expect(Object.values(times).every((time) => time >= 0)).toBe(true);
+  });
+
+  it('sums rule times over all fix passes', () => {
+    const linter = new Linter({ config });
+
+    expect(linter.verifyAndFix('{{a}}', 'test.edge').timing).toBeUndefined();
+
+    const result = linter.verifyAndFix('{{a}}', 'test.edge', undefined, { timing: true });
+    expect(result.output).toBe('{{ a }}');
+    expect(Object.keys(result.timing!).sort()).toEqual(['mustache-spacing', 'no-empty-mustache']);
+  });
+});
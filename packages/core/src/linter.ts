@@ -4,41 +4,62 @@
  * Coordinates tokenization, rule execution, and fix application.
  */
 
-import { Tokenizer } from 'edge-lexer';
-import type { Token, LexerTagDefinitionContract } from 'edge-lexer/types';
+import type { LexerTagDefinitionContract } from 'edge-lexer/types';
 import { SourceCode } from './source-code.js';
 import { RuleContext } from './rule-context.js';
 import { applyFixes, getNonOverlappingFixes } from './fixer.js';
+import {
+  getDisableDirectives,
+  applyDisableDirectives,
+  getUnusedDirectiveMessages,
+} from './disable-directives.js';
 import type {
   Rule,
   LintMessage,
   LintResult,
+  SuppressedLintMessage,
   EdgeLintConfig,
-  TokenVisitor,
-  TagToken,
-  MustacheToken,
-  RawToken,
-  CommentToken,
-  NewLineToken,
+  EdgeLintPlugin,
+  VerifyOptions,
   Severity,
   NormalizedSeverity,
   ParsedRuleConfig,
   Fix,
 } from './types/index.js';
 import { builtinRules } from './rules/index.js';
+import { resolveConfig, mergeConfigs, getConfigForFile } from './config.js';
+import { getPluginConfigs, normalizePluginName } from './plugins.js';
+import { validateConfig } from './config-validator.js';
+import { getConfiguredGlobals } from './globals.js';
+import { tokenize, type TokenizeResult } from './tokenizer.js';
+import { traverse, mergeVisitors, type RuleVisitor } from './traverser.js';
 
 export interface LinterOptions {
   /** Initial configuration */
   config?: EdgeLintConfig;
+  /** Directory used to resolve relative `extends` paths and `overrides` globs of inline configs */
+  cwd?: string;
+  /** Plugins to register, keyed by plugin name */
+  plugins?: Record<string, EdgeLintPlugin>;
 }
 
 export class Linter {
   private readonly _rules: Map<string, Rule>;
   private readonly _config: EdgeLintConfig;
+  private readonly _cwd: string;
+  private readonly _plugins = new Map<string, EdgeLintPlugin>();
+  private _resolvedConfigs = new WeakMap<EdgeLintConfig, EdgeLintConfig>();
+  private _suppressedMessages: SuppressedLintMessage[] = [];
+  private _ruleTimes: Record<string, number> = {};
 
   constructor(options: LinterOptions = {}) {
     this._config = options.config ?? {};
+    this._cwd = options.cwd ?? process.cwd();
     this._rules = new Map(Object.entries(builtinRules));
+
+    for (const [name, plugin] of Object.entries(options.plugins ?? {})) {
+      this.definePlugin(name, plugin);
+    }
   }
 
   /**
@@ -48,6 +69,24 @@ export class Linter {
     this._rules.set(ruleId, rule);
   }
 
+  /**
+   * Register a plugin's rules, configs and tags
+   *
+   * Rules are registered as "<plugin>/<rule>" and configs become available
+   * to `extends` as "plugin:<plugin>/<config>".
+   */
+  definePlugin(name: string, plugin: EdgeLintPlugin): void {
+    const { namespace } = normalizePluginName(name);
+
+    for (const [ruleId, rule] of Object.entries(plugin.rules ?? {})) {
+      this._rules.set(`${namespace}/${ruleId}`, rule);
+    }
+
+    this._plugins.set(namespace, plugin);
+    // Plugin configs can change how `extends` resolves
+    this._resolvedConfigs = new WeakMap();
+  }
+
   /**
    * Get all registered rules
    */
@@ -62,32 +101,49 @@ export class Linter {
     return this._rules.get(ruleId);
   }
 
+  /**
+   * Get the messages suppressed by inline directives during the last verify()
+   */
+  getSuppressedMessages(): SuppressedLintMessage[] {
+    return this._suppressedMessages;
+  }
+
+  /**
+   * Get the milliseconds spent in each rule during the last verify()
+   *
+   * Only collected when verify() is called with the `timing` option.
+   */
+  getRuleTimes(): Record<string, number> {
+    return this._ruleTimes;
+  }
+
   /**
    * Lint source code and return messages
+   *
+   * Throws a ConfigError if the config references unknown rules or has
+   * invalid rule options.
    */
   verify(
     source: string,
     filename: string,
-    config?: EdgeLintConfig
+    config?: EdgeLintConfig,
+    options: VerifyOptions = {}
   ): LintMessage[] {
-    const mergedConfig = this._mergeConfig(config);
-
-    // Tokenize the source
-    let tokens: Token[];
-    const syntaxErrors: LintMessage[] = [];
-
-    try {
-      tokens = this._tokenize(source, filename, mergedConfig.parserOptions?.tags);
-    } catch (error: unknown) {
-      // Capture lexer errors as lint messages
-      const err = error as { message?: string; line?: number; col?: number };
-      syntaxErrors.push({
-        ruleId: 'edge-syntax-error',
-        severity: 2,
-        message: err.message ?? 'Syntax error',
-        line: err.line ?? 1,
-        column: err.col ?? 0,
-      });
+    const resolvedConfig = this._mergeConfig(config);
+    validateConfig(resolvedConfig, this._rules);
+
+    const mergedConfig = getConfigForFile(resolvedConfig, filename, this._cwd);
+    this._suppressedMessages = [];
+    this._ruleTimes = {};
+
+    // Tokenize the source, recovering from syntax errors so rules still run
+    const { tokens, errors } = this._tokenize(source, filename, mergedConfig.parserOptions?.tags);
+    const syntaxErrors: LintMessage[] = errors.map((error) => ({
+      ruleId: 'edge-syntax-error',
+      severity: 2,
+      ...error,
+    }));
+    if (!tokens) {
       return syntaxErrors;
     }
 
@@ -96,14 +152,28 @@ export class Linter {
       text: source,
       tokens,
       filename,
+      globals: getConfiguredGlobals(mergedConfig.settings ?? {}),
     });
 
-    // Run rules
-    const messages: LintMessage[] = [...syntaxErrors];
+    // Create every rule's visitor, then walk the tokens once for all of them
+    const contexts: RuleContext[] = [];
+    const ruleVisitors: RuleVisitor[] = [];
+    const ruleErrors = new Map<string, LintMessage>();
+    const times = options.timing ? new Map<string, number>() : undefined;
+    const onRuleError = (ruleId: string, error: unknown) => {
+      const err = error as { message?: string };
+      ruleErrors.set(ruleId, {
+        ruleId,
+        severity: 2,
+        message: `Rule "${ruleId}" threw an error: ${err.message ?? 'Unknown error'}`,
+        line: 1,
+        column: 0,
+      });
+    };
 
     for (const [ruleId, ruleConfig] of Object.entries(mergedConfig.rules ?? {})) {
-      const rule = this._rules.get(ruleId);
-      if (!rule) continue;
+      // Rules were validated above, so every configured rule is registered
+      const rule = this._rules.get(ruleId)!;
 
       const { severity, options } = this._parseRuleConfig(ruleConfig);
       if (severity === 0) continue;
@@ -118,28 +188,56 @@ export class Linter {
         parserOptions: mergedConfig.parserOptions ?? {},
         messages: rule.meta.messages,
       });
+      contexts.push(context);
 
       try {
-        const visitor = rule.create(context);
-        this._traverse(tokens, visitor);
-        messages.push(...context.getMessages());
+        const start = times ? performance.now() : 0;
+        ruleVisitors.push({ ruleId, visitor: rule.create(context) });
+        times?.set(ruleId, performance.now() - start);
       } catch (error: unknown) {
-        const err = error as { message?: string };
-        messages.push({
-          ruleId,
-          severity: 2,
-          message: `Rule "${ruleId}" threw an error: ${err.message ?? 'Unknown error'}`,
-          line: 1,
-          column: 0,
-        });
+        onRuleError(ruleId, error);
       }
     }
 
+    traverse(sourceCode, mergeVisitors(ruleVisitors, onRuleError, times));
+    if (times) {
+      this._ruleTimes = Object.fromEntries(times);
+    }
+
+    // A rule that threw only reports the error, as its other messages may be incomplete
+    const messages: LintMessage[] = [];
+    for (const context of contexts) {
+      const error = ruleErrors.get(context.id);
+      messages.push(...(error ? [error] : context.getMessages()));
+    }
+
     // Sort messages by location
-    return messages.sort((a, b) => {
-      if (a.line !== b.line) return a.line - b.line;
-      return a.column - b.column;
-    });
+    messages.sort(compareMessages);
+
+    // Filter through inline disable directives
+    const directives = getDisableDirectives(sourceCode);
+    const { messages: problems, suppressedMessages, unusedDirectives } =
+      applyDisableDirectives(messages, directives);
+    this._suppressedMessages = suppressedMessages;
+
+    // Syntax errors can't be disabled
+    if (syntaxErrors.length > 0) {
+      problems.push(...syntaxErrors);
+      problems.sort(compareMessages);
+    }
+
+    // Report directives that suppressed nothing
+    const unusedSeverity = this._normalizeSeverity(
+      options.reportUnusedDisableDirectives === true
+        ? 'warn'
+        : options.reportUnusedDisableDirectives || 'off'
+    );
+    if (unusedSeverity !== 0 && unusedDirectives.length > 0) {
+      problems.push(...getUnusedDirectiveMessages(unusedDirectives, sourceCode, unusedSeverity));
+      problems.sort(compareMessages);
+    }
+
+    return problems;
   }
 
   /**
@@ -148,15 +246,25 @@ export class Linter {
   verifyAndFix(
     source: string,
     filename: string,
-    config?: EdgeLintConfig
+    config?: EdgeLintConfig,
+    options: VerifyOptions = {}
   ): LintResult {
     const MAX_ITERATIONS = 10;
     let currentSource = source;
     let messages: LintMessage[] = [];
     let fixed = false;
+    // Rule times add up over every pass
+    const timing: Record<string, number> = {};
+    const verify = (text: string) => {
+      const result = this.verify(text, filename, config, options);
+      for (const [ruleId, time] of Object.entries(this._ruleTimes)) {
+        timing[ruleId] = (timing[ruleId] ?? 0) + time;
+      }
+      return result;
+    };
 
     for (let i = 0; i < MAX_ITERATIONS; i++) {
-      messages = this.verify(currentSource, filename, config);
+      messages = verify(currentSource);
 
       const fixableMessages = messages.filter((m) => m.fix);
       if (fixableMessages.length === 0) break;
@@ -173,7 +281,7 @@ export class Linter {
 
     // Final verification after all fixes
     if (fixed) {
-      messages = this.verify(currentSource, filename, config);
+      messages = verify(currentSource);
     }
 
     return {
@@ -183,8 +291,10 @@ export class Linter {
       warningCount: messages.filter((m) => m.severity === 1).length,
       fixableErrorCount: messages.filter((m) => m.severity === 2 && m.fix).length,
       fixableWarningCount: messages.filter((m) => m.severity === 1 && m.fix).length,
+      suppressedMessages: this.getSuppressedMessages(),
       source,
       output: fixed ? currentSource : undefined,
+      timing: options.timing ? timing : undefined,
     };
   }
 
@@ -195,7 +305,7 @@ export class Linter {
     source: string,
     filename: string,
     tags?: Record<string, { block: boolean; seekable: boolean }>
-  ): Token[] {
+  ): TokenizeResult {
     // Convert our tag format to edge-lexer's format
     const lexerTags: Record<string, LexerTagDefinitionContract> = {};
     if (tags) {
@@ -236,101 +346,39 @@ export class Linter {
 
     const allTags = { ...defaultTags, ...lexerTags };
 
-    const tokenizer = new Tokenizer(source, allTags, { filename });
-    tokenizer.parse();
-    return tokenizer.tokens;
-  }
-
-  /**
-   * Traverse tokens and call visitor handlers
-   */
-  private _traverse(tokens: Token[], visitor: TokenVisitor): void {
-    // Call Program handler
-    visitor.Program?.(tokens);
-
-    // Traverse tokens
-    this._visitTokens(tokens, visitor);
-
-    // Call Program:exit handler
-    visitor['Program:exit']?.(tokens);
+    return tokenize(source, { filename, tags: allTags, recover: true });
   }
 
   /**
-   * Visit an array of tokens
+   * Merge configurations, resolving `extends` on both
+   *
+   * Tags provided by plugins are registered first so configs can redefine them.
    */
-  private _visitTokens(tokens: Token[], visitor: TokenVisitor): void {
-    for (const token of tokens) {
-      this._visitToken(token, visitor);
+  private _mergeConfig(config?: EdgeLintConfig): EdgeLintConfig {
+    const pluginTags = [...this._plugins.values()].map((plugin) => plugin.tags);
+    let merged = mergeConfigs(
+      { parserOptions: { tags: Object.assign({}, ...pluginTags) } },
+      this._resolveConfig(this._config)
+    );
+    if (config) {
+      merged = mergeConfigs(merged, this._resolveConfig(config));
     }
+    return merged;
   }
 
   /**
-   * Visit a single token and dispatch to appropriate handler
+   * Resolve a config's `extends` chain (cached per config object)
    */
-  private _visitToken(token: Token, visitor: TokenVisitor): void {
-    switch (token.type) {
-      case 'tag':
-        visitor.Tag?.(token as unknown as TagToken);
-        if ('children' in token && Array.isArray(token.children)) {
-          this._visitTokens(token.children, visitor);
-        }
-        visitor['Tag:exit']?.(token as unknown as TagToken);
-        break;
-
-      case 'e__tag':
-        visitor.EscapedTag?.(token as unknown as TagToken);
-        break;
-
-      case 'mustache':
-        visitor.Mustache?.(token as unknown as MustacheToken);
-        break;
-
-      case 's__mustache':
-        visitor.SafeMustache?.(token as unknown as MustacheToken);
-        break;
-
-      case 'e__mustache':
-        visitor.EscapedMustache?.(token as unknown as MustacheToken);
-        break;
-
-      case 'es__mustache':
-        visitor.EscapedSafeMustache?.(token as unknown as MustacheToken);
-        break;
-
-      case 'raw':
-        visitor.Raw?.(token as unknown as RawToken);
-        break;
-
-      case 'comment':
-        visitor.Comment?.(token as unknown as CommentToken);
-        break;
-
-      case 'newline':
-        visitor.NewLine?.(token as unknown as NewLineToken);
-        break;
+  private _resolveConfig(config: EdgeLintConfig): EdgeLintConfig {
+    let resolved = this._resolvedConfigs.get(config);
+    if (!resolved) {
+      resolved = resolveConfig(config, {
+        cwd: this._cwd,
+        pluginConfigs: getPluginConfigs(Object.fromEntries(this._plugins)),
+      });
+      this._resolvedConfigs.set(config, resolved);
     }
-  }
-
-  /**
-   * Merge configurations
-   */
-  private _mergeConfig(config?: EdgeLintConfig): EdgeLintConfig {
-    return {
-      rules: { ...this._config.rules, ...config?.rules },
-      settings: { ...this._config.settings, ...config?.settings },
-      parserOptions: {
-        ...this._config.parserOptions,
-        ...config?.parserOptions,
-        tags: {
-          ...this._config.parserOptions?.tags,
-          ...config?.parserOptions?.tags,
-        },
-      },
-      ignorePatterns: [
-        ...(this._config.ignorePatterns ?? []),
-        ...(config?.ignorePatterns ?? []),
-      ],
-    };
+    return resolved;
   }
 
   /**
@@ -369,3 +417,11 @@ export class Linter {
     }
   }
 }
+
+/**
+ * Compare messages by location
+ */
+function compareMessages(a: LintMessage, b: LintMessage): number {
+  if (a.line !== b.line) return a.line - b.line;
+  return a.column - b.column;
+}
@@ -0,0 +1,143 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resolveConfigWithPlugins } from './config.js';
+import { ConfigError } from './errors.js';
+import { Linter } from './linter.js';
+import { getPluginConfigs, loadPlugin, loadPlugins, normalizePluginName } from './plugins.js';
+import type { EdgeLintPlugin, Rule } from './types/index.js';
+
+const noInlineStyles: Rule = {
+  meta: {
+    type: 'suggestion',
+    docs: { description: 'Disallow inline styles', category: 'Best Practices' },
+  },
+  create(context) {
+    return {
+      Raw(token) {
+        if (token.value.includes('style=')) {
+          context.report({ node: token, message: 'Inline styles are not allowed.' });
+        }
+      },
+    };
+  },
+};
+
+const acme: EdgeLintPlugin = {
+  rules: { 'no-inline-styles': noInlineStyles },
+  configs: { recommended: { rules: { 'acme/no-inline-styles': 'warn' } } },
+  tags: { card: { block: true, seekable: true } },
+};
+
+describe('normalizePluginName', () => {
+  it('follows the edge-lint-plugin naming convention', () => {
+    expect(normalizePluginName('acme')).toEqual({
+      namespace: 'acme',
+      packageName: 'edge-lint-plugin-acme',
+    });
+    expect(normalizePluginName('edge-lint-plugin-acme')).toEqual({
+      namespace: 'acme',
+      packageName: 'edge-lint-plugin-acme',
+    });
+    expect(normalizePluginName('@acme')).toEqual({
+      namespace: '@acme',
+      packageName: '@acme/edge-lint-plugin',
+    });
+    expect(normalizePluginName('@acme/views')).toEqual({
+      namespace: '@acme/views',
+      packageName: '@acme/edge-lint-plugin-views',
+    });
+    expect(normalizePluginName('@acme/edge-lint-plugin-views')).toEqual({
+      namespace: '@acme/views',
+      packageName: '@acme/edge-lint-plugin-views',
+    });
+  });
+});
+
+describe('Linter plugins', () => {
+  it('namespaces plugin rules and resolves plugin configs', () => {
+    const linter = new Linter({
+      config: { extends: 'plugin:acme/recommended' },
+      plugins: { acme },
+    });
+
+    expect(linter.getRule('acme/no-inline-styles')).toBe(noInlineStyles);
+    expect(linter.verify('<p style="color: red"></p>\n', 'test.edge')).toMatchObject([
+      { ruleId: 'acme/no-inline-styles', severity: 1, message: 'Inline styles are not allowed.' },
+    ]);
+  });
+
+  it('registers plugin tags with the lexer', () => {
+    const linter = new Linter({ config: { rules: { 'no-unknown-tag': 'error' } } });
+
+    // Unregistered tags are plain text, so the missing @end goes unnoticed
+    expect(linter.verify('@card()\n', 'test.edge')).toEqual([]);
+
+    linter.definePlugin('acme', acme);
+    expect(linter.verify('@card()\n', 'test.edge')).toMatchObject([
+      { ruleId: 'edge-syntax-error' },
+    ]);
+    expect(linter.verify('@card()\n<p>Hello</p>\n@end\n', 'test.edge')).toEqual([]);
+  });
+
+  it('collects plugin configs by namespace', () => {
+    expect(Object.keys(getPluginConfigs({ acme, '@corp/views': acme }))).toEqual([
+      'acme/recommended',
+      '@corp/views/recommended',
+    ]);
+  });
+});
+
+describe('loadPlugin', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-lint-plugins-'));
+    const packageDir = path.join(tmpDir, 'node_modules/edge-lint-plugin-acme');
+    fs.mkdirSync(packageDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(packageDir, 'package.json'),
+      JSON.stringify({ name: 'edge-lint-plugin-acme', main: 'index.js' })
+    );
+    fs.writeFileSync(
+      path.join(packageDir, 'index.js'),
+      [
+        'module.exports = {',
+        '  rules: {},',
+        "  configs: { recommended: { rules: { 'no-undef': 'warn' } } },",
+        '};',
+      ].join('\n')
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('imports the plugin package from cwd', async () => {
+    const plugin = await loadPlugin('acme', { cwd: tmpDir });
+
+    expect(plugin.configs?.recommended).toEqual({ rules: { 'no-undef': 'warn' } });
+    expect(Object.keys(await loadPlugins(['acme', 'edge-lint-plugin-acme'], { cwd: tmpDir })))
+      .toEqual(['acme']);
+  });
+
+  it('names the package it could not find', async () => {
+    await expect(loadPlugin('missing', { cwd: tmpDir })).rejects.toThrow(ConfigError);
+    await expect(loadPlugin('missing', { cwd: tmpDir })).rejects.toThrow(
+      `Failed to load plugin "missing": cannot find package "edge-lint-plugin-missing" from "${tmpDir}".`
+    );
+  });
+
+  it('loads the plugins a config lists before resolving its extends', async () => {
+    const filePath = path.join(tmpDir, '.edgelintrc.json');
+    const { config, plugins } = await resolveConfigWithPlugins(
+      { plugins: ['acme'], extends: 'plugin:acme/recommended' },
+      { filePath }
+    );
+
+    expect(Object.keys(plugins)).toEqual(['acme']);
+    expect(config.rules).toEqual({ 'no-undef': 'warn' });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Plugins - Loading `edge-lint-plugin-*` packages
+ *
+ * Plugin names follow ESLint's conventions:
+ *   acme                         -> edge-lint-plugin-acme
+ *   @acme                        -> @acme/edge-lint-plugin
+ *   @acme/views                  -> @acme/edge-lint-plugin-views
+ *
+ * A plugin's rules are registered as "<plugin>/<rule>" and its configs can
+ * be extended with "plugin:<plugin>/<config>".
+ */
+
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { ConfigError } from './errors.js';
+import type { EdgeLintConfig, EdgeLintPlugin } from './types/index.js';
+
+const PLUGIN_PREFIX = 'edge-lint-plugin';
+
+/**
+ * Options for loading plugins
+ */
+export interface LoadPluginOptions {
+  /** Directory plugin packages are resolved from (defaults to process.cwd()) */
+  cwd?: string;
+}
+
+/**
+ * Get the namespace and package name for a plugin name
+ */
+export function normalizePluginName(name: string): { namespace: string; packageName: string } {
+  if (name.startsWith('@')) {
+    const [scope, pkg] = name.split('/', 2) as [string, string | undefined];
+
+    if (pkg === undefined || pkg === PLUGIN_PREFIX) {
+      return { namespace: scope, packageName: `${scope}/${PLUGIN_PREFIX}` };
+    }
+
+    const shortName = pkg.startsWith(`${PLUGIN_PREFIX}-`)
+      ? pkg.slice(PLUGIN_PREFIX.length + 1)
+      : pkg;
+    return {
+      namespace: `${scope}/${shortName}`,
+      packageName: `${scope}/${PLUGIN_PREFIX}-${shortName}`,
+    };
+  }
+
+  const shortName = name.startsWith(`${PLUGIN_PREFIX}-`)
+    ? name.slice(PLUGIN_PREFIX.length + 1)
+    : name;
+  return { namespace: shortName, packageName: `${PLUGIN_PREFIX}-${shortName}` };
+}
+
+/**
+ * Load a single plugin package
+ */
+export async function loadPlugin(
+  name: string,
+  options: LoadPluginOptions = {}
+): Promise<EdgeLintPlugin> {
+  const { packageName } = normalizePluginName(name);
+  const cwd = options.cwd ?? process.cwd();
+
+  let resolvedPath: string;
+  try {
+    resolvedPath = createRequire(path.join(cwd, 'noop.js')).resolve(packageName);
+  } catch {
+    throw new ConfigError(
+      `Failed to load plugin "${name}": cannot find package "${packageName}" from "${cwd}".`
+    );
+  }
+
+  try {
+    const module = (await import(pathToFileURL(resolvedPath).href)) as {
+      default?: EdgeLintPlugin;
+    } & EdgeLintPlugin;
+    return module.default ?? module;
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    throw new ConfigError(`Failed to load plugin "${name}": ${err.message ?? 'Unknown error'}`);
+  }
+}
+
+/**
+ * Load plugins, keyed by namespace
+ */
+export async function loadPlugins(
+  names: string[],
+  options: LoadPluginOptions = {}
+): Promise<Record<string, EdgeLintPlugin>> {
+  const plugins: Record<string, EdgeLintPlugin> = {};
+
+  for (const name of names) {
+    const { namespace } = normalizePluginName(name);
+    if (plugins[namespace]) continue;
+    plugins[namespace] = await loadPlugin(name, options);
+  }
+
+  return plugins;
+}
+
+/**
+ * Collect plugin configs, keyed by "<plugin>/<config>"
+ */
+export function getPluginConfigs(
+  plugins: Record<string, EdgeLintPlugin>
+): Record<string, EdgeLintConfig> {
+  const configs: Record<string, EdgeLintConfig> = {};
+
+  for (const [namespace, plugin] of Object.entries(plugins)) {
+    for (const [configName, config] of Object.entries(plugin.configs ?? {})) {
+      configs[`${namespace}/${configName}`] = config;
+    }
+  }
+
+  return configs;
+}
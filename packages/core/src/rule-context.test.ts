@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from './linter.js';
+import type { MustacheToken, Rule, TagToken } from './types/index.js';
+
+/**
+ * Lint with a rule that reports `jsArgRange` for every match of a pattern
+ */
+function reportMatches(source: string, pattern: RegExp, range?: [number, number]) {
+  const rule: Rule = {
+    meta: { type: 'problem', docs: { description: 'Test rule', category: 'Syntax' } },
+    create(context) {
+      const check = (token: MustacheToken | TagToken) => {
+        for (const match of token.properties.jsArg.matchAll(pattern)) {
+          context.report({
+            node: token,
+            jsArgRange: range ?? [match.index, match.index + match[0].length],
+            message: 'Match',
+          });
+        }
+      };
+      return { Mustache: check, Tag: check };
+    },
+  };
+  const linter = new Linter({ config: { rules: { 'test/matches': 'error' } } });
+  linter.defineRule('test/matches', rule);
+
+  return linter
+    .verify(source, 'test.edge')
+    .map(({ line, column, endLine, endColumn }) => ({ line, column, endLine, endColumn }));
+}
+
+describe('RuleContext#report with jsArgRange', () => {
+  it('maps argument offsets to template lines and columns', () => {
+    expect(reportMatches('<p>{{ foo(e(x)) + e(y) }}</p>', /e\(\w\)/g)).toEqual([
+      { line: 1, column: 10, endLine: 1, endColumn: 14 },
+      { line: 1, column: 18, endLine: 1, endColumn: 22 },
+    ]);
+  });
+
+  it('maps ranges in tag arguments and across lines', () => {
+    expect(reportMatches('@if(\n  user.isAdmin\n)\n@end', /user\.isAdmin\n/g)).toEqual([
+      { line: 2, column: 2, endLine: 3, endColumn: 0 },
+    ]);
+    expect(reportMatches('{{{ a }}}\n  @if(flag)\n@end', /flag/g)).toEqual([
+      { line: 2, column: 6, endLine: 2, endColumn: 10 },
+    ]);
+  });
+
+  it('clamps ranges to the argument', () => {
+    expect(reportMatches('{{ abc }}', /abc/g, [-5, 100])).toEqual([
+      { line: 1, column: 2, endLine: 1, endColumn: 7 },
+    ]);
+  });
+});
@@ -13,6 +13,8 @@ import type {
   SuggestionDescriptor,
   Suggestion,
   ReportableNode,
+  MustacheToken,
+  TagToken,
 } from './types/index.js';
 import type { SourceCode } from './source-code.js';
 import { Fixer, getNonOverlappingFixes } from './fixer.js';
@@ -84,7 +86,7 @@ export class RuleContext implements IRuleContext {
    * Report a lint problem
    */
   report(descriptor: ReportDescriptor): void {
-    const { node, loc, message, messageId, data, fix, suggest } = descriptor;
+    const { node, loc, jsArgRange, message, messageId, data, fix, suggest } = descriptor;
 
     // Resolve location
     let location: {
@@ -108,6 +110,8 @@ export class RuleContext implements IRuleContext {
           column: loc.column,
         };
       }
+    } else if (node && jsArgRange) {
+      location = this._getLocationFromJsArgRange(node, jsArgRange);
     } else if (node) {
       location = this._getLocationFromToken(node);
     } else {
@@ -202,6 +206,38 @@ export class RuleContext implements IRuleContext {
     return { line: 1, column: 0 };
   }
 
+  /**
+   * Get location from a range of a mustache or tag argument
+   *
+   * Offsets are relative to jsArg and clamped to it.
+   */
+  private _getLocationFromJsArgRange(
+    node: ReportableNode,
+    range: [number, number]
+  ): {
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+  } {
+    const properties = (node as { properties?: { jsArg?: unknown } }).properties;
+    if (!node.loc || typeof properties?.jsArg !== 'string') {
+      throw new Error('jsArgRange can only be used with mustache and tag nodes');
+    }
+
+    const [argStart, argEnd] = this._sourceCode.getJsArgRange(node as MustacheToken | TagToken);
+    const clamp = (offset: number) => Math.min(Math.max(argStart + offset, argStart), argEnd);
+    const start = this._sourceCode.getLocFromIndex(clamp(range[0]));
+    const end = this._sourceCode.getLocFromIndex(clamp(Math.max(range[0], range[1])));
+
+    return {
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+    };
+  }
+
   /**
    * Format a message template with data
    */
@@ -5,7 +5,7 @@
  * This provides a better user experience when displaying lists.
  */
 
-import type { Rule, TagToken, TokenVisitor, RuleContext } from '../../types/index.js';
+import type { Rule, EachBlock, TokenVisitor, RuleContext } from '../../types/index.js';
 
 export const eachElseOnEmpty: Rule = {
   meta: {
@@ -23,27 +23,14 @@ export const eachElseOnEmpty: Rule = {
 
   create(context: RuleContext): TokenVisitor {
     return {
-      Tag(token: TagToken) {
-        if (token.properties.name !== 'each') return;
+      EachBlock(node: EachBlock) {
+        // Empty loops are left alone
+        if (node.body.length === 0 || node.emptyBody) return;
 
-        const children = token.children;
-        if (!children || children.length === 0) return;
-
-        // Check if there's an @else child
-        const hasElse = children.some((child) => {
-          if (child.type === 'tag') {
-            const childTag = child as unknown as TagToken;
-            return childTag.properties.name === 'else';
-          }
-          return false;
+        context.report({
+          node: node.token,
+          messageId: 'missingElse',
         });
-
-        if (!hasElse) {
-          context.report({
-            node: token,
-            messageId: 'missingElse',
-          });
-        }
       },
     };
   },
@@ -8,15 +8,6 @@
  */
 
 import type { Rule, TagToken, TokenVisitor, RuleContext } from '../../types/index.js';
-import type { Token } from 'edge-lexer/types';
-
-// Extract variable name from @let or @assign expression
-// @let(varName = value) or @assign(varName = value)
-function extractVariableName(jsArg: string): string | null {
-  const trimmed = jsArg.trim();
-  const match = trimmed.match(/^(\w+)\s*=/);
-  return match?.[1] ?? null;
-}
 
 export const noAssignWithoutLet: Rule = {
   meta: {
@@ -33,60 +24,25 @@ export const noAssignWithoutLet: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
-    // Track defined variables and their scope
-    const definedVariables = new Set<string>();
-    const assignTokens: Array<{ token: TagToken; varName: string }> = [];
-
-    // Recursively collect all @let definitions from tokens
-    function collectLetDefinitions(tokens: Token[]): void {
-      for (const token of tokens) {
-        if (token.type === 'tag') {
-          const tag = token as unknown as TagToken;
-          if (tag.properties.name === 'let') {
-            const varName = extractVariableName(tag.properties.jsArg);
-            if (varName) {
-              definedVariables.add(varName);
-            }
-          }
-          // Recurse into children
-          if (tag.children) {
-            collectLetDefinitions(tag.children);
-          }
-        }
-      }
-    }
+    const sourceCode = context.getSourceCode();
 
     return {
-      // Collect @let definitions
       Tag(token: TagToken) {
-        if (token.properties.name === 'let') {
-          const varName = extractVariableName(token.properties.jsArg);
-          if (varName) {
-            definedVariables.add(varName);
-          }
-        } else if (token.properties.name === 'assign') {
-          const varName = extractVariableName(token.properties.jsArg);
-          if (varName) {
-            assignTokens.push({ token, varName });
-          }
-        }
-      },
+        if (token.properties.name !== 'assign') return;
+
+        // Only plain names are checked; @assign(user.name = value) updates an object
+        const ast = sourceCode.getExpressionAst(token);
+        if (ast?.type !== 'AssignmentExpression' || ast.left.type !== 'Identifier') return;
 
-      // Check all @assign at the end
-      'Program:exit'(tokens: Token[]) {
-        // Also collect from nested tokens (in case visitor missed some)
-        collectLetDefinitions(tokens);
+        // The @let must be in scope: one inside @if or @each isn't visible after @end
+        const reference = sourceCode.getScopeManager().getReference(ast.left);
+        if (reference?.resolved?.kind === 'let') return;
 
-        // Report any @assign for undefined variables
-        for (const { token, varName } of assignTokens) {
-          if (!definedVariables.has(varName)) {
-            context.report({
-              node: token,
-              messageId: 'undefinedVariable',
-              data: { name: varName },
-            });
-          }
-        }
+        context.report({
+          loc: ast.left.loc!,
+          messageId: 'undefinedVariable',
+          data: { name: ast.left.name },
+        });
       },
     };
   },
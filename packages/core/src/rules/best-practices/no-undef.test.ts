@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from '../../linter.js';
+import { recommendedConfig, strictConfig } from '../index.js';
+import type { EdgeLintConfig } from '../../types/index.js';
+
+function verify(source: string, config: EdgeLintConfig = {}) {
+  const linter = new Linter({ config: { rules: { 'no-undef': 'error' }, ...config } });
+  return linter.verify(source, 'test.edge');
+}
+
+describe('no-undef', () => {
+  it('reports undefined variables at the identifier', () => {
+    expect(verify('<p>{{ usre.name }}</p>')).toEqual([
+      {
+        ruleId: 'no-undef',
+        severity: 2,
+        message: '"usre" is not defined.',
+        line: 1,
+        column: 6,
+        endLine: 1,
+        endColumn: 10,
+      },
+    ]);
+  });
+
+  it('accepts variables from @let, @each, @slot and functions', () => {
+    const source = [
+      '@let(posts = [])',
+      '@each((post, index) in posts)',
+      '  {{ index }}: {{ post.tags.map((tag) => tag.name) }}',
+      '@end',
+      "@slot('row', row)",
+      '  {{ row.id }}',
+      '@end',
+    ].join('\n');
+
+    expect(verify(source)).toEqual([]);
+  });
+
+  it('reports loop variables and branch @let variables where they are out of scope', () => {
+    const source = [
+      '@each(post in posts)',
+      '@else',
+      '  {{ post }}',
+      '@end',
+      '@if(posts)',
+      '  @let(first = posts[0])',
+      '@else',
+      '  {{ first }}',
+      '@end',
+    ].join('\n');
+
+    expect(verify(source, { settings: { 'edge/globals': ['posts'] } })).toMatchObject([
+      { message: '"post" is not defined.', line: 3 },
+      { message: '"first" is not defined.', line: 8 },
+    ]);
+  });
+
+  it('accepts built-in and configured globals', () => {
+    const source = '{{ html.escape(JSON.stringify(user)) }} {{ route("home") }}';
+
+    expect(verify(source).map((message) => message.message)).toEqual([
+      '"user" is not defined.',
+      '"route" is not defined.',
+    ]);
+    expect(
+      verify(source, {
+        settings: { 'edge/globalSets': ['adonisjs'], 'edge/globals': ['user'] },
+      })
+    ).toEqual([]);
+  });
+
+  it('allows typeof checks unless the typeof option is set', () => {
+    const source = '@if(typeof flash !== "undefined")\n@end';
+
+    expect(verify(source)).toEqual([]);
+    expect(verify(source, { rules: { 'no-undef': ['error', { typeof: true }] } })).toMatchObject([
+      { message: '"flash" is not defined.' },
+    ]);
+  });
+
+  it('is off in the presets, which know nothing about the render state', () => {
+    expect(recommendedConfig['no-undef']).toBe('off');
+    expect(strictConfig['no-undef']).toBe('off');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Rule: no-undef
+ *
+ * Disallows variables that are not defined by the template, a surrounding
+ * @each, @let or @slot, or the configured globals.
+ *
+ * Bad: {{ usre.name }}  -- typo, only fails at render time
+ * Good: @each(user in users) {{ user.name }} @end  -- with "users" in settings['edge/globals']
+ */
+
+import type { Rule, Expression, ESTreeNode, TokenVisitor, RuleContext } from '../../types/index.js';
+import { traverseExpression } from '../../expression-parser.js';
+
+export const noUndef: Rule = {
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Disallow undefined variables in mustaches and tag arguments',
+      category: 'Best Practices',
+      recommended: false,
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          typeof: {
+            type: 'boolean',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      undefined: '"{{ name }}" is not defined.',
+    },
+  },
+
+  create(context: RuleContext): TokenVisitor {
+    const options = context.options[0] as { typeof?: boolean } | undefined;
+    // `typeof name` is the usual way to check for optional state, so it's allowed by default
+    const checkTypeof = options?.typeof ?? false;
+    const typeofArguments = new Set<ESTreeNode>();
+
+    return {
+      Expression(node: Expression) {
+        if (checkTypeof) return;
+
+        traverseExpression(node, (child) => {
+          if (child.type === 'UnaryExpression' && child.operator === 'typeof') {
+            typeofArguments.add(child.argument);
+          }
+        });
+      },
+
+      'Program:exit'() {
+        const scopeManager = context.getSourceCode().getScopeManager();
+
+        for (const reference of scopeManager.globalScope.through) {
+          const identifier = reference.identifier;
+          if (typeofArguments.has(identifier)) continue;
+
+          context.report({
+            loc: identifier.loc!,
+            messageId: 'undefined',
+            data: { name: identifier.name },
+          });
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from '../../linter.js';
+
+function verify(source: string, options: object = {}) {
+  const linter = new Linter({ config: { rules: { 'no-undefined-slot': ['warn', options] } } });
+  return linter.verify(source, 'test.edge');
+}
+
+describe('no-undefined-slot', () => {
+  it('reports slot calls without an existence check', () => {
+    expect(verify('{{{ await $slots.meta() }}}')).toMatchObject([
+      {
+        line: 1,
+        message:
+          'Slot "$slots.meta" should be checked for existence before calling. Use "@if ($slots.meta)" pattern.',
+      },
+    ]);
+  });
+
+  it('accepts checks in a surrounding @if or in the expression itself', () => {
+    const source = [
+      '@if($slots.meta && ready)',
+      '  {{{ await $slots.meta() }}}',
+      '@end',
+      '{{{ $slots.footer ? await $slots.footer() : "" }}}',
+      '{{{ await $slots.aside?.() }}}',
+    ].join('\n');
+
+    expect(verify(source)).toEqual([]);
+  });
+
+  it('does not treat a check for another slot as a check', () => {
+    expect(verify('@if($slots.header)\n{{{ await $slots.meta() }}}\n@end')).toHaveLength(1);
+  });
+
+  it('exempts main and configured slots', () => {
+    const source = '{{{ await $slots.main() }}} {{{ await $slots.icon() }}}';
+
+    expect(verify(source, { exemptSlots: ['icon'] })).toEqual([]);
+  });
+});
@@ -8,10 +8,16 @@
  * Risky: {{{ await $slots.meta() }}}  (no existence check)
  */
 
-import type { Rule, MustacheToken, TokenVisitor, RuleContext } from '../../types/index.js';
-
-// Pattern to detect slot calls: $slots.slotName()
-const SLOT_CALL_PATTERN = /\$slots\.(\w+)\s*\(/g;
+import type {
+  Rule,
+  Expression,
+  ESTreeNode,
+  MustacheToken,
+  TagToken,
+  TokenVisitor,
+  RuleContext,
+} from '../../types/index.js';
+import { traverseExpression } from '../../expression-parser.js';
 
 // Slots that don't need existence checks (always defined)
 const EXEMPT_SLOTS = new Set(['main']);
@@ -54,61 +60,85 @@ export const noUndefinedSlot: Rule = {
     // an @if block that checks for the slot's existence
 
     return {
-      // Check mustache tokens for slot calls
-      Mustache(token: MustacheToken) {
-        checkSlotCalls(token, context, exemptSlots);
-      },
-      SafeMustache(token: MustacheToken) {
-        checkSlotCalls(token, context, exemptSlots);
+      // Check mustache expressions for slot calls
+      Expression(node: Expression, token: MustacheToken | TagToken) {
+        if (token.type !== 'mustache' && token.type !== 's__mustache') return;
+        checkSlotCalls(node, token, context, exemptSlots);
       },
     };
   },
 };
 
 function checkSlotCalls(
+  node: Expression,
   token: MustacheToken,
   context: RuleContext,
   exemptSlots: Set<string>
 ): void {
-  const expr = token.properties.jsArg;
-
-  // Find all slot calls in the expression
-  SLOT_CALL_PATTERN.lastIndex = 0;
-  let match;
+  // Find all slot calls in the expression, and slots referenced without being called
+  const calls: Array<{ name: string; node: ESTreeNode }> = [];
+  const referencedSlots = new Set<string>();
+
+  traverseExpression(node, (child, parent) => {
+    const slotName = getSlotName(child);
+    if (slotName === null) return;
+
+    if (parent?.type === 'CallExpression' && parent.callee === child) {
+      // Optional calls ($slots.foo?.()) check for existence themselves
+      if (!parent.optional) calls.push({ name: slotName, node: parent });
+    } else {
+      referencedSlots.add(slotName);
+    }
+  });
 
-  while ((match = SLOT_CALL_PATTERN.exec(expr)) !== null) {
-    const slotName = match[1];
+  const sourceCode = context.getSourceCode();
 
+  for (const call of calls) {
     // Skip exempt slots
-    if (exemptSlots.has(slotName)) continue;
+    if (exemptSlots.has(call.name)) continue;
 
     // Check if there's an existence check in the expression itself
     // e.g., $slots.foo && await $slots.foo()
     // or $slots.foo ? await $slots.foo() : ''
-    const hasInlineCheck = new RegExp(`\\$slots\\.${slotName}\\s*(&&|\\?|\\|\\|)`).test(expr);
-
-    if (hasInlineCheck) continue;
+    if (referencedSlots.has(call.name)) continue;
 
     // Check if we're inside an @if that checks this slot
-    // This requires looking at parent tokens
-    const sourceCode = context.getSourceCode();
-    const ancestors = sourceCode.getAncestors(token);
-
-    const hasIfCheck = ancestors.some((ancestor) => {
-      if (ancestor.properties?.name === 'if') {
-        const condition = ancestor.properties.jsArg;
-        return condition.includes(`$slots.${slotName}`);
+    const hasIfCheck = sourceCode.getAncestors(token).some((ancestor) => {
+      if (ancestor.properties?.name !== 'if') return false;
+
+      const condition = sourceCode.getExpressionAst(ancestor);
+      let checked = false;
+      if (condition) {
+        traverseExpression(condition, (child) => {
+          if (getSlotName(child) === call.name) checked = true;
+        });
       }
-      return false;
+      return checked;
     });
 
     if (!hasIfCheck) {
       context.report({
-        node: token,
+        loc: call.node.loc!,
         messageId: 'missingCheck',
-        data: { name: slotName },
+        data: { name: call.name },
       });
       return; // Only report once per mustache
     }
   }
 }
+
+/**
+ * Get the slot name of a `$slots.name` member expression
+ */
+function getSlotName(node: ESTreeNode): string | null {
+  if (
+    node.type === 'MemberExpression' &&
+    !node.computed &&
+    node.object.type === 'Identifier' &&
+    node.object.name === '$slots' &&
+    node.property.type === 'Identifier'
+  ) {
+    return node.property.name;
+  }
+  return null;
+}
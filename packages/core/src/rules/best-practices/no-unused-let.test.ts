@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from '../../linter.js';
+
+function verify(source: string) {
+  const linter = new Linter({ config: { rules: { 'no-unused-let': 'warn' } } });
+  return linter.verify(source, 'test.edge');
+}
+
+describe('no-unused-let', () => {
+  it('reports @let variables that are never read', () => {
+    expect(verify('@let(total = 0)\n@let(count = 1)\n{{ count }}')).toMatchObject([
+      { line: 1, message: 'Variable "total" is defined but never used.' },
+    ]);
+  });
+
+  it('counts reads in tag arguments and nested expressions', () => {
+    const source = [
+      '@let(items = [])',
+      '@let(limit = 3)',
+      '@each(item in items.slice(0, limit))',
+      '  {{ item }}',
+      '@end',
+    ].join('\n');
+
+    expect(verify(source)).toEqual([]);
+  });
+
+  it('does not count property names as reads', () => {
+    expect(verify('@let(name = "x")\n{{ user.name }} {{ { name: 1 } }}')).toMatchObject([
+      { message: 'Variable "name" is defined but never used.' },
+    ]);
+  });
+});
@@ -4,32 +4,7 @@
  * Warns when a variable defined with @let is never used.
  */
 
-import type { Rule, TagToken, MustacheToken, TokenVisitor, RuleContext } from '../../types/index.js';
-import type { Token } from 'edge-lexer/types';
-
-interface VariableInfo {
-  name: string;
-  token: TagToken;
-  used: boolean;
-}
-
-// Extract variable name from @let expression
-// @let(varName = expression) or @let(varName)
-function extractLetVariableName(jsArg: string): string | null {
-  const trimmed = jsArg.trim();
-
-  // Match: varName = ... or just varName
-  const match = trimmed.match(/^(\w+)\s*(?:=|$)/);
-  return match?.[1] ?? null;
-}
-
-// Check if an expression references a variable
-function expressionReferencesVariable(expr: string, varName: string): boolean {
-  // Simple check: look for the variable name as a word boundary
-  // This is a basic approach - a proper implementation would parse the AST
-  const regex = new RegExp(`\\b${varName}\\b`);
-  return regex.test(expr);
-}
+import type { Rule, TokenVisitor, RuleContext } from '../../types/index.js';
 
 export const noUnusedLet: Rule = {
   meta: {
@@ -45,66 +20,24 @@ export const noUnusedLet: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
-    const variables: VariableInfo[] = [];
-
-    function checkUsageInExpression(expr: string): void {
-      for (const varInfo of variables) {
-        if (expressionReferencesVariable(expr, varInfo.name)) {
-          varInfo.used = true;
-        }
-      }
-    }
-
-    function checkUsageInTokens(tokens: Token[]): void {
-      for (const token of tokens) {
-        if (token.type === 'mustache' || token.type === 's__mustache') {
-          const mustache = token as unknown as MustacheToken;
-          checkUsageInExpression(mustache.properties.jsArg);
-        } else if (token.type === 'tag') {
-          const tag = token as unknown as TagToken;
-          if (tag.properties.jsArg) {
-            checkUsageInExpression(tag.properties.jsArg);
-          }
-          if (tag.children) {
-            checkUsageInTokens(tag.children);
-          }
-        }
-      }
-    }
-
     return {
-      Tag(token: TagToken) {
-        if (token.properties.name === 'let') {
-          const varName = extractLetVariableName(token.properties.jsArg);
-          if (varName) {
-            variables.push({
-              name: varName,
-              token,
-              used: false,
-            });
-          }
-        }
-      },
-
-      Mustache(token: MustacheToken) {
-        checkUsageInExpression(token.properties.jsArg);
-      },
+      'Program:exit'() {
+        const scopeManager = context.getSourceCode().getScopeManager();
 
-      SafeMustache(token: MustacheToken) {
-        checkUsageInExpression(token.properties.jsArg);
-      },
+        for (const scope of scopeManager.scopes) {
+          for (const variable of scope.variables) {
+            // Assigning with @assign doesn't count as a use
+            if (variable.kind !== 'let' || variable.references.some((ref) => ref.isRead)) {
+              continue;
+            }
 
-      'Program:exit'(tokens: Token[]) {
-        // Do a final pass to check all usages
-        checkUsageInTokens(tokens);
+            const def = variable.defs[0];
+            if (!def) continue;
 
-        // Report unused variables
-        for (const varInfo of variables) {
-          if (!varInfo.used) {
             context.report({
-              node: varInfo.token,
+              node: def.token,
               messageId: 'unused',
-              data: { name: varInfo.name },
+              data: { name: variable.name },
             });
           }
         }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from '../../linter.js';
+import type { EdgeLintConfig } from '../../types/index.js';
+
+const config: EdgeLintConfig = { rules: { 'prefer-unless-over-negated-if': 'warn' } };
+
+function verify(source: string) {
+  return new Linter({ config }).verify(source, 'test.edge');
+}
+
+function fix(source: string) {
+  return new Linter({ config }).verifyAndFix(source, 'test.edge').output;
+}
+
+describe('prefer-unless-over-negated-if', () => {
+  it('reports @if with a negated condition', () => {
+    expect(verify('@if(!account.isActive)\n@end')).toMatchObject([
+      {
+        line: 1,
+        message:
+          'Use "@unless(account.isActive)" instead of "@if(!account.isActive)" for cleaner code.',
+      },
+    ]);
+  });
+
+  it('reports the negated condition', () => {
+    expect(verify('@if(!ready)\n@end')).toMatchObject([
+      { line: 1, column: 4, endLine: 1, endColumn: 10 },
+    ]);
+  });
+
+  it('ignores compound conditions and other tags', () => {
+    expect(verify('@if(!a && b)\n@end\n@if(!(a || b))\n@end\n@unless(!a)\n@end')).toEqual([]);
+  });
+
+  it('rewrites the tag and drops parens around the negated expression', () => {
+    expect(fix('@if(!user)\n@end')).toBe('@unless(user)\n@end');
+    expect(fix('@if(!(user.isAdmin))\n@end')).toBe('@unless(user.isAdmin)\n@end');
+  });
+
+  it('rewrites the tag itself, not an earlier "@if" in its argument', () => {
+    expect(fix('@if(/* @if */ !ready)\n@end')).toBe('@unless(/* @if */ ready)\n@end');
+  });
+});
@@ -7,43 +7,7 @@
  * Good: @unless(account.isActive)
  */
 
-import type { Rule, TagToken, TokenVisitor, RuleContext } from '../../types/index.js';
-
-// Pattern to detect simple negation: !expression (not compound conditions)
-// Match: !foo, !foo.bar, !foo(), !(foo)
-// Don't match: !foo && bar, !foo || bar (compound)
-function isSimpleNegation(expr: string): { isNegated: boolean; innerExpr: string } {
-  const trimmed = expr.trim();
-
-  // Must start with !
-  if (!trimmed.startsWith('!')) {
-    return { isNegated: false, innerExpr: '' };
-  }
-
-  // Get the expression after !
-  let inner = trimmed.slice(1).trim();
-
-  // Handle parenthesized negation: !( ... )
-  if (inner.startsWith('(') && inner.endsWith(')')) {
-    inner = inner.slice(1, -1).trim();
-  }
-
-  // Check if the remaining expression has compound operators (&&, ||)
-  // Simple approach: if it contains && or || at the top level, it's compound
-  // This is a simplified check - doesn't handle nested parens perfectly
-  if (/&&|\|\|/.test(inner) && !isFullyParenthesized(inner)) {
-    return { isNegated: false, innerExpr: '' };
-  }
-
-  return { isNegated: true, innerExpr: inner };
-}
-
-function isFullyParenthesized(expr: string): boolean {
-  // Check if expression is wrapped in parens: (a && b)
-  if (!expr.startsWith('(') || !expr.endsWith(')')) return false;
-  // Very basic check - could be improved
-  return true;
-}
+import type { Rule, TagToken, TokenVisitor, RuleContext, Fix } from '../../types/index.js';
 
 export const preferUnlessOverNegatedIf: Rule = {
   meta: {
@@ -61,32 +25,42 @@ export const preferUnlessOverNegatedIf: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
+    const sourceCode = context.getSourceCode();
+
     return {
       Tag(token: TagToken) {
         if (token.properties.name !== 'if') return;
 
-        const { isNegated, innerExpr } = isSimpleNegation(token.properties.jsArg);
+        // Match: !foo, !foo.bar, !foo(), !(foo)
+        // Don't match: !foo && bar, !foo || bar, !(foo && bar) (compound)
+        const node = sourceCode.getExpressionAst(token);
+        if (node?.type !== 'UnaryExpression' || node.operator !== '!') return;
+        if (node.argument.type === 'LogicalExpression') return;
+
+        const [start, end] = node.range!;
+        const [innerStart, innerEnd] = node.argument.range!;
+        const inner = sourceCode.text.slice(innerStart, innerEnd);
+        // The tag's own range, so an earlier "@if" (in a string or an @elseif) isn't matched
+        const tagStart = sourceCode.getRange(token)?.[0] ?? -1;
 
-        if (isNegated && innerExpr) {
-          const sourceCode = context.getSourceCode();
-          const range = sourceCode.getRange(token);
+        context.report({
+          loc: node.loc!,
+          messageId: 'useUnless',
+          data: { inner },
+          fix: (fixer) => {
+            if (!sourceCode.text.startsWith('@if', tagStart)) return null;
 
-          context.report({
-            node: token,
-            messageId: 'useUnless',
-            data: { inner: innerExpr },
-            fix: range ? (fixer) => {
-              // Replace @if(!expr) with @unless(expr)
-              const text = sourceCode.getText(token);
-              // Replace the tag name and remove the negation
-              const newText = text
-                .replace(/@if\s*\(\s*!\s*/, '@unless(')
-                .replace(/@if\s*\(\s*!\s*\(\s*/, '@unless(')
-                .replace(/\)\s*\)$/, ')'); // Remove extra closing paren if needed
-              return fixer.replaceTextRange(range, newText);
-            } : undefined,
-          });
-        }
+            // Replace @if(!expr) with @unless(expr), dropping parens around the negated expression
+            const fixes: Fix[] = [
+              fixer.replaceTextRange([tagStart, tagStart + '@if'.length], '@unless'),
+              fixer.removeRange([start, innerStart]),
+            ];
+            if (end > innerEnd) {
+              fixes.push(fixer.removeRange([innerEnd, end]));
+            }
+            return fixes;
+          },
+        });
       },
     };
   },
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from '../../linter.js';
+
+function verify(source: string) {
+  const linter = new Linter({ config: { rules: { 'require-props-defaults': 'warn' } } });
+  return linter.verify(source, 'test.edge');
+}
+
+describe('require-props-defaults', () => {
+  it('suggests $props.merge() for inline fallbacks', () => {
+    expect(verify("{{ size || 'md' }}\n{{ variant ?? primary }}")).toMatchObject([
+      {
+        line: 1,
+        message:
+          'Consider using "$props.merge({ size: \'md\' })" instead of inline fallback for better maintainability.',
+      },
+      {
+        line: 2,
+        message:
+          'Consider using "$props.merge({ variant: primary })" instead of inline fallback for better maintainability.',
+      },
+    ]);
+  });
+
+  it('reports the fallback expression', () => {
+    expect(verify("<p>{{ size || 'md' }}</p>")).toMatchObject([
+      { line: 1, column: 6, endLine: 1, endColumn: 18 },
+    ]);
+  });
+
+  it('ignores other expressions and common non-prop variables', () => {
+    const source = [
+      "{{ size && 'md' }}",
+      "{{ user || 'guest' }}",
+      '{{ title || fallback() }}',
+      "{{ 'a' || 'b' }}",
+    ].join('\n');
+
+    expect(verify(source)).toEqual([]);
+  });
+});
@@ -8,11 +8,17 @@
  * $props.merge() is more maintainable for component props.
  */
 
-import type { Rule, MustacheToken, TokenVisitor, RuleContext } from '../../types/index.js';
+import type {
+  Rule,
+  Expression,
+  MustacheToken,
+  TagToken,
+  TokenVisitor,
+  RuleContext,
+} from '../../types/index.js';
 
-// Pattern to detect prop fallback usage: propName || 'default' or propName ?? 'default'
-// Only triggers if it looks like a component prop (simple identifier with fallback)
-const PROP_FALLBACK_PATTERN = /^\s*(\w+)\s*(\|\||[?]{2})\s*(['"][^'"]*['"]|[a-zA-Z0-9_]+)\s*$/;
+// Common non-prop variables
+const SKIP_VARS = ['user', 'data', 'item', 'index', 'value', 'key', 'post', 'comment'];
 
 export const requirePropsDefaults: Rule = {
   meta: {
@@ -29,37 +35,35 @@ export const requirePropsDefaults: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
-    function checkMustache(token: MustacheToken): void {
-      const expr = token.properties.jsArg.trim();
+    const sourceCode = context.getSourceCode();
 
-      // Check if this looks like a prop fallback pattern
-      const match = expr.match(PROP_FALLBACK_PATTERN);
+    return {
+      Expression(node: Expression, token: MustacheToken | TagToken) {
+        if (token.type !== 'mustache' && token.type !== 's__mustache') return;
+
+        // Only a whole mustache of the form: propName || 'default' or propName ?? 'default'
+        if (node.type !== 'LogicalExpression' || node.operator === '&&') return;
+        if (node.left.type !== 'Identifier') return;
+        if (node.right.type !== 'Identifier' && node.right.type !== 'Literal') return;
+        if ('regex' in node.right) return;
 
-      if (match) {
-        const propName = match[1];
-        const defaultValue = match[3];
+        const propName = node.left.name;
 
         // Skip if it's already using $props
         if (propName.startsWith('$props')) return;
 
         // Skip common non-prop variables
-        const skipVars = ['user', 'data', 'item', 'index', 'value', 'key', 'post', 'comment'];
-        if (skipVars.includes(propName)) return;
+        if (SKIP_VARS.includes(propName)) return;
 
         context.report({
-          node: token,
+          loc: node.loc!,
           messageId: 'usePropsMerge',
           data: {
             prop: propName,
-            default: defaultValue,
+            default: sourceCode.text.slice(node.right.range![0], node.right.range![1]),
           },
         });
-      }
-    }
-
-    return {
-      Mustache: checkMustache,
-      SafeMustache: checkMustache,
+      },
     };
   },
 };
@@ -11,7 +11,7 @@
 import type { Rule, MustacheToken, TokenVisitor, RuleContext } from '../../types/index.js';
 
 // Pattern to detect $slots.xxx() calls (to extract slot name)
-const SLOTS_CALL = /\$slots\.(\w+)\s*\(/g;
+const SLOTS_CALL = /\$slots\.(\w+)(?=\s*\()/g;
 
 // Pattern to check if await is present before $slots
 const HAS_AWAIT = /\bawait\s+\$slots\.(\w+)\s*\(/;
@@ -57,6 +57,7 @@ export const requireSlotAwait: Rule = {
 
         context.report({
           node: token,
+          jsArgRange: [match.index, match.index + match[0].length],
           messageId: 'missingAwait',
           data: { name: slotName },
           fix(fixer) {
@@ -34,6 +34,7 @@ import { noRawHtmlInMustache } from './best-practices/no-raw-html-in-mustache.js
 import { requirePropsDefaults } from './best-practices/require-props-defaults.js';
 import { eachElseOnEmpty } from './best-practices/each-else-on-empty.js';
 import { preferStackPushOnce } from './best-practices/prefer-stack-push-once.js';
+import { noUndef } from './best-practices/no-undef.js';
 
 // Style rules
 import { mustacheSpacing } from './style/mustache-spacing.js';
@@ -74,6 +75,7 @@ export const builtinRules: Record<string, Rule> = {
   'require-props-defaults': requirePropsDefaults,
   'each-else-on-empty': eachElseOnEmpty,
   'prefer-stack-push-once': preferStackPushOnce,
+  'no-undef': noUndef,
 
   // Style
   'mustache-spacing': mustacheSpacing,
@@ -116,6 +118,7 @@ export const recommendedConfig: Record<string, 'error' | 'warn' | 'off'> = {
   'require-props-defaults': 'off',
   'each-else-on-empty': 'off',
   'prefer-stack-push-once': 'off',
+  'no-undef': 'off', // Needs render state listed in settings['edge/globals']
 
   // Style - off by default
   'mustache-spacing': 'off',
@@ -157,6 +160,7 @@ export const strictConfig: Record<string, 'error' | 'warn' | 'off'> = {
   'require-props-defaults': 'warn',
   'each-else-on-empty': 'warn',
   'prefer-stack-push-once': 'warn',
+  'no-undef': 'off', // Needs render state listed in settings['edge/globals']
 
   // Style - warnings
   'mustache-spacing': 'warn',
@@ -198,6 +202,7 @@ export const allConfig: Record<string, 'error' | 'warn' | 'off'> = {
   'require-props-defaults': 'warn',
   'each-else-on-empty': 'warn',
   'prefer-stack-push-once': 'warn',
+  'no-undef': 'error',
 
   // Style
   'mustache-spacing': 'warn',
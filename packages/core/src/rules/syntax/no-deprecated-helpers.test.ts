@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from '../../linter.js';
+
+function verify(source: string) {
+  const linter = new Linter({ config: { rules: { 'no-deprecated-helpers': 'error' } } });
+  return linter.verify(source, 'test.edge');
+}
+
+describe('no-deprecated-helpers', () => {
+  it('reports each call of a removed helper', () => {
+    const source = '{{ e(title) }}\n{{{ safe(stringify(data)) }}}\n@if(raise("x"))\n@end';
+
+    expect(verify(source)).toMatchObject([
+      {
+        line: 1,
+        message: 'The "e()" helper was removed in Edge.js v6. Use "html.escape()" instead.',
+      },
+      {
+        line: 2,
+        message: 'The "safe()" helper was removed in Edge.js v6. Use "html.safe()" instead.',
+      },
+      {
+        line: 2,
+        message:
+          'The "stringify()" helper was removed in Edge.js v6. Use "js.stringify()" instead.',
+      },
+      {
+        line: 3,
+        message: 'The "raise()" helper was removed in Edge.js v6 and has no replacement.',
+      },
+    ]);
+  });
+
+  it('reports the whole call', () => {
+    expect(verify('<p>{{ foo(e(x)) }}</p>')).toMatchObject([
+      { line: 1, column: 10, endLine: 1, endColumn: 14 },
+    ]);
+  });
+
+  it('ignores methods, properties and helpers in strings', () => {
+    expect(verify('{{ html.escape(e) }} {{ helpers.safe(x) }} {{ "e(x)" }}')).toEqual([]);
+  });
+});
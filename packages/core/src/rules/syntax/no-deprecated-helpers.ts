@@ -8,7 +8,8 @@
  * - raise() -> removed entirely
  */
 
-import type { Rule, MustacheToken, TokenVisitor, RuleContext } from '../../types/index.js';
+import type { Rule, Expression, TokenVisitor, RuleContext } from '../../types/index.js';
+import { traverseExpression } from '../../expression-parser.js';
 
 // Deprecated helpers and their replacements
 const DEPRECATED_HELPERS: Record<string, { replacement: string | null; message: string }> = {
@@ -30,10 +31,6 @@ const DEPRECATED_HELPERS: Record<string, { replacement: string | null; message:
   },
 };
 
-// Regex to find deprecated helpers anywhere in the expression
-// Uses negative lookbehind to exclude method calls like js.stringify() or html.escape()
-const HELPER_USAGE_REGEX = /(?<![.\w])(e|stringify|safe|raise)\s*\(/g;
-
 export const noDeprecatedHelpers: Rule = {
   meta: {
     type: 'problem',
@@ -49,30 +46,22 @@ export const noDeprecatedHelpers: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
-    function checkMustache(token: MustacheToken): void {
-      const expression = token.properties.jsArg;
-
-      // Find all deprecated helper usages in the expression
-      let match: RegExpExecArray | null;
-      HELPER_USAGE_REGEX.lastIndex = 0; // Reset regex state
+    return {
+      Expression(node: Expression) {
+        traverseExpression(node, (child) => {
+          // Only direct calls like e(), not methods like html.escape()
+          if (child.type !== 'CallExpression' || child.callee.type !== 'Identifier') return;
 
-      while ((match = HELPER_USAGE_REGEX.exec(expression)) !== null) {
-        const helperName = match[1];
-        const helperInfo = DEPRECATED_HELPERS[helperName];
+          const helperName = child.callee.name;
+          if (!Object.hasOwn(DEPRECATED_HELPERS, helperName)) return;
 
-        if (helperInfo) {
           context.report({
-            node: token,
+            loc: child.loc!,
             messageId: 'deprecated',
-            data: { message: helperInfo.message },
+            data: { message: DEPRECATED_HELPERS[helperName]!.message },
           });
-        }
-      }
-    }
-
-    return {
-      Mustache: checkMustache,
-      SafeMustache: checkMustache,
+        });
+      },
     };
   },
 };
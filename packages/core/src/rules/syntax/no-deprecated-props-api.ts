@@ -28,8 +28,8 @@ const DEPRECATED_METHODS: Record<string, { replacement: string; message: string
   },
 };
 
-// Regex to match $props.serialize, $props.serializeExcept, $props.serializeOnly
-const PROPS_METHOD_REGEX = /\$props\.(serialize|serializeExcept|serializeOnly)\s*\(/g;
+// Regex to match $props.serialize, $props.serializeExcept, $props.serializeOnly calls
+const PROPS_METHOD_REGEX = /\$props\.(serialize|serializeExcept|serializeOnly)(?=\s*\()/g;
 
 export const noDeprecatedPropsApi: Rule = {
   meta: {
@@ -60,6 +60,7 @@ export const noDeprecatedPropsApi: Rule = {
         if (methodInfo) {
           context.report({
             node: token,
+            jsArgRange: [match.index, match.index + match[0].length],
             messageId: 'deprecated',
             data: { message: methodInfo.message },
           });
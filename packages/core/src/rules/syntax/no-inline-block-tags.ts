@@ -11,17 +11,15 @@
  *       @end
  */
 
-import type { Rule, TagToken, TokenVisitor, RuleContext, LexerToken } from '../../types/index.js';
-
-// Block tags that require multiline content
-const BLOCK_TAGS = new Set([
-  'if',
-  'unless',
-  'each',
-  'component',
-  'slot',
-  'section', // deprecated but still check for helpful error
-]);
+import type {
+  Rule,
+  Block,
+  TagToken,
+  TemplateBlockNode,
+  TokenVisitor,
+  RuleContext,
+  LexerToken,
+} from '../../types/index.js';
 
 export const noInlineBlockTags: Rule = {
   meta: {
@@ -40,64 +38,69 @@ export const noInlineBlockTags: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
-    return {
-      Tag(token: TagToken) {
-        const tagName = token.properties.name;
-
-        // Only check block tags
-        if (!BLOCK_TAGS.has(tagName)) {
-          return;
-        }
+    function checkBlock(node: TemplateBlockNode): void {
+      const token = node.token;
+      const tagName = token.properties.name;
 
-        // Check if tag has children (content)
-        const children = token.children;
-        if (!children || children.length === 0) {
-          return;
-        }
+      // Check if tag has children (content); @else and @elseif on the same line count too
+      const children = token.children;
+      if (!children || children.length === 0) {
+        return;
+      }
 
-        const tagStartLine = token.loc.start.line;
+      const tagStartLine = token.loc.start.line;
 
-        // Check each child to see if any non-newline content is on the same line as the opening tag
-        for (const child of children) {
-          const childLine = getTokenLine(child);
-          const childType = child.type as string;
+      // Check each child to see if any non-newline content is on the same line as the opening tag
+      for (const child of children) {
+        const childLine = getTokenLine(child);
+        const childType = child.type as string;
 
-          if (childLine === tagStartLine) {
-            // Skip if it's just a newline token
-            if (childType === 'newline') {
-              continue;
-            }
+        if (childLine === tagStartLine) {
+          // Skip if it's just a newline token
+          if (childType === 'newline') {
+            continue;
+          }
 
-            // Check if this is the end tag on the same line
-            if (childType === 'tag' && isEndTag(child)) {
-              context.report({
-                node: token,
-                messageId: 'inlineEnd',
-                data: { name: tagName },
-              });
-            } else if (childType === 'raw') {
-              // Check if raw content is non-whitespace
-              const rawValue = (child as { value?: string }).value ?? '';
-              if (rawValue.trim() !== '') {
-                context.report({
-                  node: token,
-                  messageId: 'inlineContent',
-                  data: { name: tagName },
-                });
-              }
-            } else if (childType !== 'newline') {
-              // Any other non-newline content on same line
+          // Check if this is the end tag on the same line
+          if (childType === 'tag' && isEndTag(child)) {
+            context.report({
+              node: token,
+              messageId: 'inlineEnd',
+              data: { name: tagName },
+            });
+          } else if (childType === 'raw') {
+            // Check if raw content is non-whitespace
+            const rawValue = (child as { value?: string }).value ?? '';
+            if (rawValue.trim() !== '') {
               context.report({
                 node: token,
                 messageId: 'inlineContent',
                 data: { name: tagName },
               });
             }
-
-            // Only report once per tag
-            break;
+          } else if (childType !== 'newline') {
+            // Any other non-newline content on same line
+            context.report({
+              node: token,
+              messageId: 'inlineContent',
+              data: { name: tagName },
+            });
           }
+
+          // Only report once per tag
+          break;
         }
+      }
+    }
+
+    return {
+      IfBlock: checkBlock,
+      EachBlock: checkBlock,
+      ComponentBlock: checkBlock,
+      SlotBlock: checkBlock,
+      // @section was removed in v6, but is still checked for a helpful error
+      Block(node: Block) {
+        if (node.token.properties.name === 'section') checkBlock(node);
       },
     };
   },
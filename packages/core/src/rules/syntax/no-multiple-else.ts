@@ -5,7 +5,7 @@
  * Only one @else is allowed per @if/@unless block.
  */
 
-import type { Rule, TagToken, TokenVisitor, RuleContext } from '../../types/index.js';
+import type { Rule, IfBlock, TokenVisitor, RuleContext } from '../../types/index.js';
 
 export const noMultipleElse: Rule = {
   meta: {
@@ -21,35 +21,16 @@ export const noMultipleElse: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
-    function checkConditionalChildren(token: TagToken): void {
-      const children = token.children;
-      if (!children || children.length === 0) return;
-
-      let elseCount = 0;
-
-      for (const child of children) {
-        if (child.type === 'tag') {
-          const childTag = child as unknown as TagToken;
-          if (childTag.properties.name === 'else') {
-            elseCount++;
-            if (elseCount > 1) {
-              context.report({
-                node: childTag,
-                messageId: 'multipleElse',
-              });
-            }
-          }
-        }
-      }
-    }
-
     return {
-      Tag(token: TagToken) {
-        const name = token.properties.name;
+      // Covers @if and @unless
+      IfBlock(node: IfBlock) {
+        const elseClauses = node.alternates.filter((alternate) => alternate.type === 'ElseClause');
 
-        // Check @if and @unless blocks
-        if (name === 'if' || name === 'unless') {
-          checkConditionalChildren(token);
+        for (const clause of elseClauses.slice(1)) {
+          context.report({
+            node: clause.token,
+            messageId: 'multipleElse',
+          });
         }
       },
     };
@@ -44,10 +44,14 @@ export const noReservedVariableNames: Rule = {
         // Only check @let tags
         if (token.properties.name !== 'let') return;
 
-        const varName = extractVariableName(token.properties.jsArg);
+        const jsArg = token.properties.jsArg;
+        const varName = extractVariableName(jsArg);
         if (varName && RESERVED_NAMES.has(varName)) {
+          // The name is the first word of the argument
+          const start = jsArg.indexOf(varName);
           context.report({
             node: token,
+            jsArgRange: [start, start + varName.length],
             messageId: 'reserved',
             data: { name: varName },
           });
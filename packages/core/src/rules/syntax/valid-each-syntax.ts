@@ -35,6 +35,9 @@ export const validEachSyntax: Rule = {
         if (token.properties.name !== 'each') return;
 
         const jsArg = token.properties.jsArg.trim();
+        // Range of the trimmed argument within jsArg
+        const argStart = token.properties.jsArg.length - token.properties.jsArg.trimStart().length;
+        const argRange: [number, number] = [argStart, argStart + jsArg.length];
 
         // Check for empty argument
         if (!jsArg) {
@@ -46,9 +49,12 @@ export const validEachSyntax: Rule = {
         }
 
         // Check for common mistake: using "of" instead of "in"
-        if (/\s+of\s+/.test(jsArg)) {
+        const ofMatch = /\s+of\s+/.exec(jsArg);
+        if (ofMatch) {
+          const ofStart = argStart + ofMatch.index + ofMatch[0].indexOf('of');
           context.report({
             node: token,
+            jsArgRange: [ofStart, ofStart + 'of'.length],
             messageId: 'useInNotOf',
           });
           return;
@@ -58,6 +64,7 @@ export const validEachSyntax: Rule = {
         if (!jsArg.includes(' in ')) {
           context.report({
             node: token,
+            jsArgRange: argRange,
             messageId: 'missingIn',
           });
           return;
@@ -70,6 +77,7 @@ export const validEachSyntax: Rule = {
         if (!isSimpleEach && !isTupleEach) {
           context.report({
             node: token,
+            jsArgRange: argRange,
             messageId: 'invalidSyntax',
           });
         }
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from '../../linter.js';
+
+function verify(source: string) {
+  const linter = new Linter({ config: { rules: { 'valid-expression': 'error' } } });
+  return linter.verify(source, 'test.edge');
+}
+
+describe('valid-expression', () => {
+  it('accepts valid mustaches and tag arguments', () => {
+    expect(
+      verify(
+        [
+          '{{ user.name }}',
+          '{{{ html.escape(`<b>${title}</b>`) }}}',
+          '{{ text.split(/[([]/) }}',
+          '@each((item, index) in items)',
+          '@let(total = index + 1)',
+          '@end',
+        ].join('\n')
+      )
+    ).toEqual([]);
+  });
+
+  it('reports the parser message at its column in the template', () => {
+    expect(verify('<p>{{ a b }}</p>')).toMatchObject([
+      { message: 'Invalid expression: Unexpected token b', line: 1, column: 8 },
+    ]);
+    expect(verify('<p>\n  {{ user. }}\n</p>')).toMatchObject([
+      { message: 'Invalid expression: Unexpected end of expression', line: 2, column: 10 },
+    ]);
+  });
+
+  it('marks the character the parser stopped at', () => {
+    expect(verify('{{ a b }}')).toMatchObject([{ line: 1, column: 5, endLine: 1, endColumn: 6 }]);
+  });
+
+  it('reports tag arguments that do not fit the tag grammar', () => {
+    expect(verify('@each(items)\n@end')).toMatchObject([
+      {
+        message: 'Invalid expression: Expected "item in list" or "(item, index) in list"',
+        line: 1,
+        column: 6,
+      },
+    ]);
+    expect(verify('@let(user.name = 1)')).toMatchObject([
+      { message: 'Invalid expression: Expected "name = value"', line: 1, column: 5 },
+    ]);
+  });
+});
@@ -2,118 +2,15 @@
  * Rule: valid-expression
  *
  * Validates that JavaScript expressions in mustaches and tags are syntactically valid.
+ * Expressions are parsed with espree, and errors are reported at the parser's position.
  */
 
 import type { Rule, MustacheToken, TagToken, TokenVisitor, RuleContext } from '../../types/index.js';
-
-// Simple JavaScript expression validator
-// Uses a basic approach - tries to wrap in parentheses and check for obvious errors
-function isValidExpression(expr: string): { valid: boolean; error?: string } {
-  const trimmed = expr.trim();
-  if (trimmed === '') {
-    return { valid: true }; // Empty is handled by no-empty-mustache
-  }
-
-  // Check for common syntax errors
-  const checks = [
-    // Unmatched brackets
-    { regex: /\([^)]*$/, error: 'Unclosed parenthesis' },
-    { regex: /\[[^\]]*$/, error: 'Unclosed bracket' },
-    { regex: /\{[^}]*$/, error: 'Unclosed brace' },
-
-    // Trailing operators
-    { regex: /[+\-*/%&|^]=?\s*$/, error: 'Expression ends with operator' },
-    { regex: /\.\s*$/, error: 'Expression ends with dot' },
-    { regex: /,\s*$/, error: 'Expression ends with comma' },
-
-    // Invalid start
-    { regex: /^\s*[+*/%&|^]/, error: 'Expression starts with invalid operator' },
-    { regex: /^\s*\)/, error: 'Expression starts with closing parenthesis' },
-    { regex: /^\s*\]/, error: 'Expression starts with closing bracket' },
-    { regex: /^\s*\}/, error: 'Expression starts with closing brace' },
-  ];
-
-  for (const check of checks) {
-    if (check.regex.test(trimmed)) {
-      return { valid: false, error: check.error };
-    }
-  }
-
-  // Check bracket balance
-  let parenDepth = 0;
-  let bracketDepth = 0;
-  let braceDepth = 0;
-  let inString: string | null = null;
-  let escaped = false;
-
-  for (let i = 0; i < trimmed.length; i++) {
-    const char = trimmed[i];
-
-    if (escaped) {
-      escaped = false;
-      continue;
-    }
-
-    if (char === '\\') {
-      escaped = true;
-      continue;
-    }
-
-    if (inString) {
-      if (char === inString) {
-        inString = null;
-      }
-      continue;
-    }
-
-    if (char === '"' || char === "'" || char === '`') {
-      inString = char;
-      continue;
-    }
-
-    switch (char) {
-      case '(':
-        parenDepth++;
-        break;
-      case ')':
-        parenDepth--;
-        if (parenDepth < 0) return { valid: false, error: 'Unmatched closing parenthesis' };
-        break;
-      case '[':
-        bracketDepth++;
-        break;
-      case ']':
-        bracketDepth--;
-        if (bracketDepth < 0) return { valid: false, error: 'Unmatched closing bracket' };
-        break;
-      case '{':
-        braceDepth++;
-        break;
-      case '}':
-        braceDepth--;
-        if (braceDepth < 0) return { valid: false, error: 'Unmatched closing brace' };
-        break;
-    }
-  }
-
-  if (inString) {
-    return { valid: false, error: `Unclosed string (started with ${inString})` };
-  }
-
-  if (parenDepth !== 0) {
-    return { valid: false, error: 'Unmatched parentheses' };
-  }
-
-  if (bracketDepth !== 0) {
-    return { valid: false, error: 'Unmatched brackets' };
-  }
-
-  if (braceDepth !== 0) {
-    return { valid: false, error: 'Unmatched braces' };
-  }
-
-  return { valid: true };
-}
+import {
+  parseExpression,
+  parseTagArgument,
+  type ExpressionParseResult,
+} from '../../expression-parser.js';
 
 export const validExpression: Rule = {
   meta: {
@@ -129,27 +26,37 @@ export const validExpression: Rule = {
   },
 
   create(context: RuleContext): TokenVisitor {
-    function checkExpression(jsArg: string, token: MustacheToken | TagToken): void {
-      const result = isValidExpression(jsArg);
-      if (!result.valid) {
-        context.report({
-          node: token,
-          messageId: 'invalid',
-          data: { error: result.error ?? 'Unknown error' },
-        });
-      }
+    function checkExpression(
+      jsArg: string,
+      token: MustacheToken | TagToken,
+      parse: (code: string) => ExpressionParseResult
+    ): void {
+      // Empty expressions are handled by no-empty-mustache
+      if (jsArg.trim() === '') return;
+
+      const { error } = parse(jsArg);
+      if (!error) return;
+
+      context.report({
+        node: token,
+        jsArgRange: [error.offset, error.offset + 1],
+        messageId: 'invalid',
+        data: { error: error.message },
+      });
     }
 
     return {
       Mustache(token: MustacheToken) {
-        checkExpression(token.properties.jsArg, token);
+        checkExpression(token.properties.jsArg, token, parseExpression);
       },
       SafeMustache(token: MustacheToken) {
-        checkExpression(token.properties.jsArg, token);
+        checkExpression(token.properties.jsArg, token, parseExpression);
       },
       Tag(token: TagToken) {
         if (token.properties.jsArg) {
-          checkExpression(token.properties.jsArg, token);
+          checkExpression(token.properties.jsArg, token, (code) =>
+            parseTagArgument(token.properties.name, code)
+          );
         }
       },
     };
@@ -0,0 +1,156 @@
+import { Tokenizer } from 'edge-lexer';
+import { describe, expect, it } from 'vitest';
+import { SourceCode } from './source-code.js';
+import { ScopeManager } from './scope-manager.js';
+import type { Reference, Scope } from './types/index.js';
+
+const tags = {
+  if: { block: true, seekable: true },
+  elseif: { block: false, seekable: true },
+  else: { block: false, seekable: false },
+  each: { block: true, seekable: true },
+  slot: { block: true, seekable: true },
+  let: { block: false, seekable: true },
+};
+
+function analyze(text: string, globals: string[] = []): ScopeManager {
+  const tokenizer = new Tokenizer(text, tags, { filename: 'test.edge' });
+  tokenizer.parse();
+  return new ScopeManager(
+    new SourceCode({ text, tokens: tokenizer.tokens, filename: 'test.edge' }),
+    {
+      globals,
+    }
+  );
+}
+
+function allReferences(scopeManager: ScopeManager): Reference[] {
+  return scopeManager.scopes.flatMap((scope) => scope.references);
+}
+
+/**
+ * Map each referenced name (with its line) to the scope type of the variable it resolves to
+ */
+function resolutions(scopeManager: ScopeManager): Record<string, Scope['type'] | null> {
+  return Object.fromEntries(
+    allReferences(scopeManager).map((reference) => [
+      `${reference.identifier.name}@${reference.identifier.loc!.start.line}`,
+      reference.resolved?.scope.type ?? null,
+    ])
+  );
+}
+
+describe('ScopeManager', () => {
+  it('declares globals and the implicit $props and $slots', () => {
+    const scopeManager = analyze('{{ user }} {{ $props }}', ['user']);
+
+    expect([...scopeManager.globalScope.set.keys()]).toEqual(['user']);
+    expect([...scopeManager.templateScope.set.keys()]).toEqual(['$props', '$slots']);
+    expect(resolutions(scopeManager)).toEqual({ 'user@1': 'global', '$props@1': 'template' });
+  });
+
+  it('keeps @let variables in the enclosing block until its @end', () => {
+    const scopeManager = analyze(
+      [
+        '@let(top = 1)',
+        '@if(top)',
+        '@let(inner = 2)',
+        '{{ inner }}',
+        '@end',
+        '{{ inner }} {{ top }}',
+      ].join('\n')
+    );
+
+    expect(resolutions(scopeManager)).toEqual({
+      'top@2': 'template',
+      'inner@4': 'block',
+      'inner@6': null,
+      'top@6': 'template',
+    });
+  });
+
+  it('gives each @if branch its own scope', () => {
+    const scopeManager = analyze(
+      [
+        '@if(ready)',
+        '@let(inner = 1)',
+        '{{ inner }}',
+        '@elseif(pending)',
+        '{{ inner }}',
+        '@else',
+        '@let(other = 2)',
+        '{{ inner }} {{ other }}',
+        '@end',
+      ].join('\n')
+    );
+
+    expect(resolutions(scopeManager)).toEqual({
+      'ready@1': null,
+      'inner@3': 'block',
+      'pending@4': null,
+      'inner@5': null,
+      'inner@8': null,
+      'other@8': 'block',
+    });
+  });
+
+  it('resolves a @let declared later in the same scope', () => {
+    const scopeManager = analyze('{{ later }}\n@let(later = 1)');
+
+    expect(resolutions(scopeManager)).toEqual({ 'later@1': 'template' });
+  });
+
+  it('binds @each items and indexes inside the loop only', () => {
+    const scopeManager = analyze(
+      ['@each((item, index) in items)', '{{ item }} {{ index }}', '@end', '{{ item }}'].join('\n')
+    );
+
+    const eachScope = scopeManager.scopes.find((scope) => scope.type === 'each')!;
+    expect([...eachScope.set.keys()]).toEqual(['item', 'index']);
+    expect(eachScope.set.get('item')!.kind).toBe('each');
+    // The list is evaluated outside of the loop
+    expect(resolutions(scopeManager)).toEqual({
+      'items@1': null,
+      'item@2': 'each',
+      'index@2': 'each',
+      'item@4': null,
+    });
+  });
+
+  it('evaluates the @else of @each outside the loop', () => {
+    const scopeManager = analyze(
+      ['@each(item in items)', '{{ item }}', '@else', '{{ item }} {{ items }}', '@end'].join('\n')
+    );
+
+    expect(resolutions(scopeManager)).toEqual({
+      'items@1': null,
+      'item@2': 'each',
+      'item@4': null,
+      'items@4': null,
+    });
+  });
+
+  it('binds the scope argument of @slot', () => {
+    const scopeManager = analyze("@slot('row', row)\n{{ row.name }}\n@end");
+
+    expect(resolutions(scopeManager)).toEqual({ 'row@2': 'slot' });
+  });
+
+  it('scopes function parameters to the function', () => {
+    const scopeManager = analyze('{{ items.map((entry) => entry.name) }}\n{{ entry }}');
+
+    expect(resolutions(scopeManager)).toEqual({
+      'items@1': null,
+      'entry@1': 'function',
+      'entry@2': null,
+    });
+  });
+
+  it('collects unresolved references in through', () => {
+    const scopeManager = analyze('@if(flag)\n{{ missing }}\n@end');
+
+    expect(
+      scopeManager.templateScope.through.map((reference) => reference.identifier.name)
+    ).toEqual(['flag', 'missing']);
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * Scope manager - Variables and references in an Edge template
+ *
+ * Scopes follow the JavaScript Edge compiles templates to:
+ *   - the global scope holds the globals configured in settings['edge/globals']
+ *   - the template scope holds $props, $slots and top-level @let variables
+ *   - block tags (@component, ...) open a block scope, and so does each branch of
+ *     @if/@unless, so a @let in one branch isn't visible in the next
+ *   - @each opens a scope with the item and index; the list and the @else
+ *     branch are evaluated outside it
+ *   - @slot('name', scope) opens a scope with the slot's scope argument
+ *   - functions inside expressions open a function scope
+ *
+ * All declarations are collected before references are resolved, so a
+ * reference resolves to a @let declared later in the same scope.
+ */
+
+import type { Token } from 'edge-lexer/types';
+import type {
+  ArrowFunctionExpression,
+  FunctionDeclaration,
+  FunctionExpression,
+  Identifier,
+  Node,
+} from 'estree';
+import type {
+  AnyToken,
+  MustacheToken,
+  Reference,
+  Scope,
+  ScopeManager as IScopeManager,
+  ScopeType,
+  SourceCode,
+  TagToken,
+  TemplateBlockNode,
+  TemplateChild,
+  Variable,
+  VariableDefinition,
+  VariableKind,
+} from './types/index.js';
+import { forEachChildNode, isReferenceIdentifier } from './expression-parser.js';
+
+/**
+ * Options for building a scope manager
+ */
+export interface ScopeManagerOptions {
+  /** Names of global variables */
+  globals?: string[];
+}
+
+// Variables every template receives from its caller
+const IMPLICIT_VARIABLES = ['$props', '$slots'];
+
+type FunctionNode = ArrowFunctionExpression | FunctionExpression | FunctionDeclaration;
+
+export class ScopeManager implements IScopeManager {
+  readonly globalScope: Scope;
+  readonly templateScope: Scope;
+  readonly scopes: Scope[] = [];
+
+  private readonly _sourceCode: SourceCode;
+  private readonly _tokenScopes = new WeakMap<AnyToken, Scope>();
+  private readonly _tagScopes = new WeakMap<TagToken, Scope>();
+  private readonly _declaredVariables = new WeakMap<AnyToken, Variable[]>();
+  private readonly _references = new WeakMap<Identifier, Reference>();
+
+  constructor(sourceCode: SourceCode, options: ScopeManagerOptions = {}) {
+    this._sourceCode = sourceCode;
+    this.globalScope = this._createScope('global', null, null);
+    this.templateScope = this._createScope('template', null, this.globalScope);
+
+    for (const name of options.globals ?? []) {
+      this._declare(this.globalScope, name, 'global');
+    }
+    for (const name of IMPLICIT_VARIABLES) {
+      this._declare(this.templateScope, name, 'implicit');
+    }
+
+    this._declareChildren(sourceCode.getTemplateAst().body, this.templateScope);
+    this._referenceTokens(sourceCode.tokens);
+    this._resolveReferences();
+  }
+
+  /**
+   * Get the scope a token's argument is evaluated in
+   */
+  getScope(token: AnyToken): Scope {
+    return this._tokenScopes.get(token) ?? this.templateScope;
+  }
+
+  /**
+   * Get the scope opened by a tag, if any
+   */
+  acquire(tag: TagToken): Scope | null {
+    return this._tagScopes.get(tag) ?? null;
+  }
+
+  /**
+   * Get the variables declared by a tag or mustache argument
+   */
+  getDeclaredVariables(token: TagToken | MustacheToken): Variable[] {
+    return this._declaredVariables.get(token) ?? [];
+  }
+
+  /**
+   * Get the reference made by an identifier, if it is a reference
+   */
+  getReference(identifier: Identifier): Reference | null {
+    return this._references.get(identifier) ?? null;
+  }
+
+  /**
+   * First pass: create block scopes and declare the variables tags introduce.
+   * Scopes follow the template AST, so @if branches and the @else of @each
+   * each get their own.
+   */
+  private _declareChildren(children: TemplateChild[], scope: Scope): void {
+    for (const child of children) {
+      if ('token' in child) {
+        this._declareBlock(child, scope);
+        continue;
+      }
+
+      this._tokenScopes.set(child, scope);
+      if (child.type === 'tag') {
+        this._declareLet(child as unknown as TagToken, scope);
+      }
+    }
+  }
+
+  /**
+   * Declare the variables of a @let tag in the scope it appears in
+   */
+  private _declareLet(tag: TagToken, scope: Scope): void {
+    if (tag.properties.name !== 'let') return;
+
+    const ast = this._sourceCode.getExpressionAst(tag);
+    // @let(name = value)
+    if (ast?.type === 'AssignmentExpression') {
+      this._declarePattern(ast.left, scope, 'let', tag);
+    }
+  }
+
+  /**
+   * Create the scopes of a block and its branches, and declare their variables
+   */
+  private _declareBlock(node: TemplateBlockNode, scope: Scope): void {
+    const tag = node.token;
+    const ast = this._sourceCode.getExpressionAst(tag);
+    this._tokenScopes.set(tag, scope);
+
+    switch (node.type) {
+      case 'IfBlock':
+        this._declareChildren(node.consequent, this._openScope('block', tag, scope));
+        for (const alternate of node.alternates) {
+          this._tokenScopes.set(alternate.token, scope);
+          this._declareChildren(alternate.body, this._openScope('block', alternate.token, scope));
+        }
+        return;
+
+      case 'EachBlock': {
+        const eachScope = this._openScope('each', tag, scope);
+        // item in list, (item, index) in list
+        if (ast?.type === 'BinaryExpression' && ast.operator === 'in') {
+          const bindings =
+            ast.left.type === 'SequenceExpression' ? ast.left.expressions : [ast.left];
+          for (const binding of bindings) {
+            this._declarePattern(binding, eachScope, 'each', tag);
+          }
+        }
+        this._declareChildren(node.body, eachScope);
+
+        // The @else branch renders when the list is empty, outside the loop
+        if (node.alternate) {
+          const elseTag = node.alternate.token;
+          this._tokenScopes.set(elseTag, scope);
+          this._declareChildren(node.alternate.body, this._openScope('block', elseTag, scope));
+        }
+        return;
+      }
+
+      case 'SlotBlock': {
+        const slotScope = this._openScope('slot', tag, scope);
+        // @slot('name', scope)
+        const scopeArgument = ast?.type === 'SequenceExpression' ? ast.expressions[1] : undefined;
+        if (scopeArgument) {
+          this._declarePattern(scopeArgument, slotScope, 'slot', tag);
+        }
+        this._declareChildren(node.body, slotScope);
+        return;
+      }
+
+      default:
+        // Self-closed components have nothing to scope
+        if (tag.children.length === 0) return;
+        this._declareChildren(
+          node.body,
+          this._openScope(node.type === 'ComponentBlock' ? 'component' : 'block', tag, scope)
+        );
+    }
+  }
+
+  /**
+   * Create the scope a tag opens
+   */
+  private _openScope(type: ScopeType, tag: TagToken, upper: Scope): Scope {
+    const scope = this._createScope(type, tag, upper);
+    this._tagScopes.set(tag, scope);
+    return scope;
+  }
+
+  /**
+   * Second pass: record the references made by tag and mustache arguments
+   */
+  private _referenceTokens(tokens: Token[]): void {
+    for (const token of tokens) {
+      if (token.type === 'tag') {
+        const tag = token as unknown as TagToken;
+        this._referenceTag(tag);
+        this._referenceTokens(tag.children);
+      } else if (token.type === 'mustache' || token.type === 's__mustache') {
+        const mustache = token as unknown as MustacheToken;
+        const ast = this._sourceCode.getExpressionAst(mustache);
+        if (ast) {
+          this._visit(ast, null, this.getScope(mustache), mustache);
+        }
+      }
+    }
+  }
+
+  /**
+   * Record the references in a tag argument, skipping the names it declares
+   */
+  private _referenceTag(tag: TagToken): void {
+    const ast = this._sourceCode.getExpressionAst(tag);
+    if (!ast) return;
+
+    const scope = this.getScope(tag);
+    const name = tag.properties.name;
+
+    if (name === 'let' && ast.type === 'AssignmentExpression') {
+      this._visitPattern(ast.left, scope, tag, false);
+      this._visit(ast.right, ast, scope, tag);
+    } else if (name === 'each' && ast.type === 'BinaryExpression' && ast.operator === 'in') {
+      this._visit(ast.right, ast, scope, tag);
+    } else if (name === 'slot' && ast.type === 'SequenceExpression') {
+      ast.expressions.forEach((expression, index) => {
+        if (index !== 1) this._visit(expression, ast, scope, tag);
+      });
+    } else {
+      this._visit(ast, null, scope, tag);
+    }
+  }
+
+  /**
+   * Record the references in an expression
+   */
+  private _visit(
+    node: Node,
+    parent: Node | null,
+    scope: Scope,
+    token: TagToken | MustacheToken
+  ): void {
+    switch (node.type) {
+      case 'Identifier':
+        if (isReferenceIdentifier(node, parent)) {
+          this._addReference(node, scope, token, true, false);
+        }
+        return;
+
+      case 'ArrowFunctionExpression':
+      case 'FunctionExpression':
+      case 'FunctionDeclaration':
+        this._visitFunction(node, scope, token);
+        return;
+
+      case 'AssignmentExpression':
+        if (node.left.type === 'Identifier') {
+          // Compound assignments (`count += 1`) also read the variable
+          this._addReference(node.left, scope, token, node.operator !== '=', true);
+        } else {
+          this._visitPattern(node.left, scope, token, true);
+        }
+        this._visit(node.right, node, scope, token);
+        return;
+
+      case 'UpdateExpression':
+        if (node.argument.type === 'Identifier') {
+          this._addReference(node.argument, scope, token, true, true);
+          return;
+        }
+        break;
+
+      case 'VariableDeclarator':
+        // Declared when the function scope was created
+        this._visitPattern(node.id, scope, token, false);
+        if (node.init) this._visit(node.init, node, scope, token);
+        return;
+
+      case 'CatchClause':
+        if (node.param) this._visitPattern(node.param, scope, token, false);
+        this._visit(node.body, node, scope, token);
+        return;
+
+      case 'ClassExpression':
+      case 'ClassDeclaration':
+        if (node.superClass) this._visit(node.superClass, node, scope, token);
+        this._visit(node.body, node, scope, token);
+        return;
+    }
+
+    forEachChildNode(node, (child) => this._visit(child, node, scope, token));
+  }
+
+  /**
+   * Record the references in a binding or assignment target: default values,
+   * computed keys and, for assignments, the written identifiers
+   */
+  private _visitPattern(
+    node: Node,
+    scope: Scope,
+    token: TagToken | MustacheToken,
+    isWrite: boolean
+  ): void {
+    switch (node.type) {
+      case 'Identifier':
+        if (isWrite) this._addReference(node, scope, token, false, true);
+        return;
+
+      case 'ObjectPattern':
+        for (const property of node.properties) {
+          if (property.type === 'RestElement') {
+            this._visitPattern(property.argument, scope, token, isWrite);
+            continue;
+          }
+          if (property.computed) this._visit(property.key, property, scope, token);
+          this._visitPattern(property.value, scope, token, isWrite);
+        }
+        return;
+
+      case 'ArrayPattern':
+        for (const element of node.elements) {
+          if (element) this._visitPattern(element, scope, token, isWrite);
+        }
+        return;
+
+      case 'RestElement':
+        this._visitPattern(node.argument, scope, token, isWrite);
+        return;
+
+      case 'AssignmentPattern':
+        this._visitPattern(node.left, scope, token, isWrite);
+        this._visit(node.right, node, scope, token);
+        return;
+
+      default:
+        // Member expressions read their object
+        this._visit(node, null, scope, token);
+    }
+  }
+
+  /**
+   * Create a function's scope, declare its params and locals, and visit its body
+   */
+  private _visitFunction(node: FunctionNode, scope: Scope, token: TagToken | MustacheToken): void {
+    const functionScope = this._createScope('function', null, scope, node);
+
+    // Function declarations are named in the enclosing scope, expressions in their own
+    if (node.type === 'FunctionExpression' && node.id) {
+      this._declare(functionScope, node.id.name, 'local', { identifier: node.id, token });
+    }
+    for (const param of node.params) {
+      this._declarePattern(param, functionScope, 'param', token);
+    }
+    this._declareLocals(node.body, functionScope, token);
+
+    for (const param of node.params) {
+      this._visitPattern(param, functionScope, token, false);
+    }
+    this._visit(node.body, node, functionScope, token);
+  }
+
+  /**
+   * Declare the variables, functions and catch params in a function body
+   */
+  private _declareLocals(node: Node, scope: Scope, token: TagToken | MustacheToken): void {
+    forEachChildNode(node, (child) => {
+      switch (child.type) {
+        case 'ArrowFunctionExpression':
+        case 'FunctionExpression':
+          return;
+        case 'FunctionDeclaration':
+          if (child.id)
+            this._declare(scope, child.id.name, 'local', { identifier: child.id, token });
+          return;
+        case 'ClassDeclaration':
+          if (child.id)
+            this._declare(scope, child.id.name, 'local', { identifier: child.id, token });
+          break;
+        case 'VariableDeclarator':
+          this._declarePattern(child.id, scope, 'local', token);
+          break;
+        case 'CatchClause':
+          if (child.param) this._declarePattern(child.param, scope, 'local', token);
+          break;
+      }
+      this._declareLocals(child, scope, token);
+    });
+  }
+
+  /**
+   * Declare the names bound by a pattern. @each bindings are parsed as
+   * expressions, so object and array literals are treated as patterns.
+   */
+  private _declarePattern(
+    node: Node,
+    scope: Scope,
+    kind: VariableKind,
+    token: TagToken | MustacheToken
+  ): void {
+    switch (node.type) {
+      case 'Identifier':
+        this._declare(scope, node.name, kind, { identifier: node, token });
+        break;
+      case 'ObjectPattern':
+      case 'ObjectExpression':
+        for (const property of node.properties) {
+          const target = property.type === 'Property' ? property.value : property.argument;
+          this._declarePattern(target, scope, kind, token);
+        }
+        break;
+      case 'ArrayPattern':
+      case 'ArrayExpression':
+        for (const element of node.elements) {
+          if (element) this._declarePattern(element, scope, kind, token);
+        }
+        break;
+      case 'RestElement':
+      case 'SpreadElement':
+        this._declarePattern(node.argument, scope, kind, token);
+        break;
+      case 'AssignmentPattern':
+        this._declarePattern(node.left, scope, kind, token);
+        break;
+    }
+  }
+
+  /**
+   * Declare a variable, or add a definition to an existing one
+   */
+  private _declare(
+    scope: Scope,
+    name: string,
+    kind: VariableKind,
+    def?: VariableDefinition
+  ): Variable {
+    let variable = scope.set.get(name);
+    if (!variable) {
+      variable = { name, kind, scope, defs: [], references: [] };
+      scope.set.set(name, variable);
+      scope.variables.push(variable);
+    }
+
+    if (def) {
+      variable.defs.push(def);
+      const declared = this._declaredVariables.get(def.token) ?? [];
+      if (!declared.includes(variable)) declared.push(variable);
+      this._declaredVariables.set(def.token, declared);
+    }
+
+    return variable;
+  }
+
+  private _addReference(
+    identifier: Identifier,
+    scope: Scope,
+    token: TagToken | MustacheToken,
+    isRead: boolean,
+    isWrite: boolean
+  ): void {
+    // Shorthand properties can share one identifier between key and value
+    if (this._references.has(identifier)) return;
+
+    const reference: Reference = {
+      identifier,
+      token,
+      from: scope,
+      resolved: null,
+      isRead,
+      isWrite,
+    };
+    scope.references.push(reference);
+    this._references.set(identifier, reference);
+  }
+
+  /**
+   * Resolve every reference to the nearest variable with its name
+   */
+  private _resolveReferences(): void {
+    for (const scope of this.scopes) {
+      for (const reference of scope.references) {
+        let current: Scope | null = scope;
+
+        while (current) {
+          const variable = current.set.get(reference.identifier.name);
+          if (variable) {
+            reference.resolved = variable;
+            variable.references.push(reference);
+            break;
+          }
+          current.through.push(reference);
+          current = current.upper;
+        }
+      }
+    }
+  }
+
+  private _createScope(
+    type: ScopeType,
+    token: TagToken | null,
+    upper: Scope | null,
+    node: Node | null = null
+  ): Scope {
+    const scope: Scope = {
+      type,
+      token,
+      node,
+      upper,
+      childScopes: [],
+      variables: [],
+      set: new Map(),
+      references: [],
+      through: [],
+    };
+
+    upper?.childScopes.push(scope);
+    this.scopes.push(scope);
+    return scope;
+  }
+}
@@ -0,0 +1,98 @@
+import { Tokenizer } from 'edge-lexer';
+import { describe, expect, it } from 'vitest';
+import { traverseExpression } from './expression-parser.js';
+import { Linter } from './linter.js';
+import { SourceCode } from './source-code.js';
+import type { MustacheToken, Rule, TagToken } from './types/index.js';
+
+const tags = {
+  if: { block: true, seekable: true },
+};
+
+function createSourceCode(text: string): SourceCode {
+  const tokenizer = new Tokenizer(text, tags, { filename: 'test.edge' });
+  tokenizer.parse();
+  return new SourceCode({ text, tokens: tokenizer.tokens, filename: 'test.edge' });
+}
+
+function findToken<T extends MustacheToken | TagToken>(sourceCode: SourceCode, type: string): T {
+  return sourceCode.getTokensByType(type)[0] as T;
+}
+
+describe('SourceCode#getExpressionAst', () => {
+  it('maps node ranges and locations to the template', () => {
+    const text = '<p>\n  {{ user.name }}\n</p>';
+    const sourceCode = createSourceCode(text);
+    const ast = sourceCode.getExpressionAst(findToken(sourceCode, 'mustache'))!;
+
+    expect(ast.type).toBe('MemberExpression');
+    expect(text.slice(...ast.range!)).toBe('user.name');
+    expect(ast.loc).toEqual({ start: { line: 2, column: 5 }, end: { line: 2, column: 14 } });
+    expect(ast).toMatchObject({ start: ast.range![0], end: ast.range![1] });
+  });
+
+  it('maps nested nodes of tag arguments', () => {
+    const text = '@if(items.length > max)\n@end';
+    const sourceCode = createSourceCode(text);
+    const ast = sourceCode.getExpressionAst(findToken(sourceCode, 'tag'))!;
+
+    const identifiers: string[] = [];
+    traverseExpression(ast, (node) => {
+      if (node.type === 'Identifier') identifiers.push(text.slice(...node.range!));
+    });
+    expect(identifiers).toEqual(['items', 'length', 'max']);
+  });
+
+  it('returns null for empty and unparsable arguments', () => {
+    const sourceCode = createSourceCode('{{ }} {{ a b }}');
+    const [empty, invalid] = sourceCode.getTokensByType('mustache') as MustacheToken[];
+
+    expect(sourceCode.getExpressionAst(empty!)).toBeNull();
+    expect(sourceCode.getExpressionAst(invalid!)).toBeNull();
+  });
+
+  it('caches the AST per token', () => {
+    const sourceCode = createSourceCode('{{ a + b }}');
+    const token = findToken<MustacheToken>(sourceCode, 'mustache');
+
+    expect(sourceCode.getExpressionAst(token)).toBe(sourceCode.getExpressionAst(token));
+  });
+});
+
+describe('Expression visitor', () => {
+  it('is called with the parsed argument of each mustache and tag', () => {
+    const seen: string[] = [];
+    const rule: Rule = {
+      meta: { type: 'problem', docs: { description: 'Test rule', category: 'Syntax' } },
+      create(context) {
+        return {
+          Expression(node, token) {
+            seen.push(`${token.type}:${node.type}`);
+            traverseExpression(node, (child) => {
+              if (child.type === 'CallExpression') {
+                context.report({ loc: child.loc!, message: 'Call' });
+              }
+            });
+          },
+        };
+      },
+    };
+    const linter = new Linter({ config: { rules: { 'test/calls': 'error' } } });
+    linter.defineRule('test/calls', rule);
+
+    const messages = linter.verify(
+      '@if(ready())\n  {{ a + b }} {{{ render() }}} {{ }}\n@end',
+      't.edge'
+    );
+
+    expect(seen).toEqual([
+      'tag:CallExpression',
+      'mustache:BinaryExpression',
+      's__mustache:CallExpression',
+    ]);
+    expect(messages.map(({ line, column }) => [line, column])).toEqual([
+      [1, 4],
+      [2, 18],
+    ]);
+  });
+});
@@ -6,11 +6,19 @@
  */
 
 import type { Token } from 'edge-lexer/types';
+import type { Expression, Node } from 'estree';
 import type {
   TagToken,
+  MustacheToken,
   AnyToken,
+  Scope,
+  Template,
+  TemplateNode,
   SourceCode as ISourceCode,
 } from './types/index.js';
+import { parseExpression, traverseExpression } from './expression-parser.js';
+import { ScopeManager } from './scope-manager.js';
+import { buildTemplateAst, type TemplateAst } from './template-ast.js';
 
 export interface SourceCodeOptions {
   /** Original source text */
@@ -19,6 +27,8 @@ export interface SourceCodeOptions {
   tokens: Token[];
   /** Filename being linted */
   filename: string;
+  /** Names of global variables for scope analysis */
+  globals?: string[];
 }
 
 export class SourceCode implements ISourceCode {
@@ -29,14 +39,20 @@ export class SourceCode implements ISourceCode {
 
   private readonly _lineStartIndices: number[];
   private readonly _parentMap: WeakMap<AnyToken, TagToken | null>;
+  private readonly _expressionAsts: WeakMap<AnyToken, Expression | null>;
+  private readonly _globals: string[];
+  private _scopeManager: ScopeManager | null = null;
+  private _templateAst: TemplateAst | null = null;
 
   constructor(options: SourceCodeOptions) {
     this.text = options.text;
     this.tokens = options.tokens;
     this.filename = options.filename;
+    this._globals = options.globals ?? [];
     this.lines = this.text.split(/\r?\n/);
     this._lineStartIndices = this._computeLineStartIndices();
     this._parentMap = new WeakMap();
+    this._expressionAsts = new WeakMap();
     this._buildParentMap(this.tokens, null);
   }
 
@@ -132,6 +148,17 @@ export class SourceCode implements ISourceCode {
     return null;
   }
 
+  /**
+   * Get the byte range [start, end] of a mustache or tag argument (jsArg)
+   *
+   * The lexer's loc for these tokens starts right after the opening
+   * delimiter, which is where jsArg begins.
+   */
+  getJsArgRange(token: MustacheToken | TagToken): [number, number] {
+    const start = this.getIndexFromLoc(token.loc.start);
+    return [start, start + (token.properties.jsArg ?? '').length];
+  }
+
   /**
    * Convert location to source byte index
    */
@@ -161,6 +188,73 @@ export class SourceCode implements ISourceCode {
     return { line: 1, column: index };
   }
 
+  /**
+   * Get the parsed argument of a mustache or tag
+   *
+   * Returns null for empty or unparsable arguments. Node ranges, `start`/`end`
+   * and `loc` are mapped to positions in the template. Results are cached.
+   */
+  getExpressionAst(token: MustacheToken | TagToken): Expression | null {
+    const cached = this._expressionAsts.get(token);
+    if (cached !== undefined) return cached;
+
+    const jsArg = token.properties.jsArg;
+    let ast: Expression | null = null;
+
+    if (jsArg && jsArg.trim() !== '') {
+      const result = parseExpression(jsArg);
+      if (result.ast) {
+        // The parser saw the argument wrapped in a paren, so offsets are one too large
+        const offset = this.getJsArgRange(token)[0] - 1;
+        const mapped = new Set<Node>();
+        traverseExpression(result.ast, (node) => {
+          if (mapped.has(node)) return;
+          mapped.add(node);
+          this._mapNodeLocation(node, offset);
+        });
+        ast = result.ast;
+      }
+    }
+
+    this._expressionAsts.set(token, ast);
+    return ast;
+  }
+
+  /**
+   * Get the scope manager for the template
+   *
+   * Built on first use and shared by all rules.
+   */
+  getScopeManager(): ScopeManager {
+    this._scopeManager ??= new ScopeManager(this, { globals: this._globals });
+    return this._scopeManager;
+  }
+
+  /**
+   * Get the scope a token's argument is evaluated in
+   */
+  getScope(token: AnyToken): Scope {
+    return this.getScopeManager().getScope(token);
+  }
+
+  /**
+   * Get the template AST, with @elseif and @else grouped into branches
+   *
+   * Built on first use and shared by all rules.
+   */
+  getTemplateAst(): Template {
+    this._templateAst ??= buildTemplateAst(this);
+    return this._templateAst.template;
+  }
+
+  /**
+   * Get the template AST node for a block, @elseif or @else tag
+   */
+  getTemplateNode(tag: TagToken): TemplateNode | null {
+    this._templateAst ??= buildTemplateAst(this);
+    return this._templateAst.nodes.get(tag) ?? null;
+  }
+
   /**
    * Get children of a tag token
    */
@@ -202,6 +296,22 @@ export class SourceCode implements ISourceCode {
     return this.lines.length;
   }
 
+  /**
+   * Shift an expression node's location into template coordinates
+   */
+  private _mapNodeLocation(node: Node, offset: number): void {
+    if (!node.range) return;
+
+    const start = node.range[0] + offset;
+    const end = node.range[1] + offset;
+    node.range = [start, end];
+    Object.assign(node, { start, end });
+    node.loc = {
+      start: this.getLocFromIndex(start),
+      end: this.getLocFromIndex(end),
+    };
+  }
+
   /**
    * Compute byte indices where each line starts
    */
@@ -0,0 +1,150 @@
+import { Tokenizer } from 'edge-lexer';
+import { describe, expect, it } from 'vitest';
+import { Linter } from './linter.js';
+import { SourceCode } from './source-code.js';
+import type { Rule, TagToken, TemplateChild } from './types/index.js';
+
+const tags = {
+  if: { block: true, seekable: true },
+  elseif: { block: false, seekable: true },
+  else: { block: false, seekable: false },
+  each: { block: true, seekable: true },
+  component: { block: true, seekable: true },
+  slot: { block: true, seekable: true },
+  pushTo: { block: true, seekable: true },
+};
+
+function createSourceCode(text: string): SourceCode {
+  const tokenizer = new Tokenizer(text, tags, { filename: 'test.edge' });
+  tokenizer.parse();
+  return new SourceCode({ text, tokens: tokenizer.tokens, filename: 'test.edge' });
+}
+
+/**
+ * Describe a body by node type, or by token type and text for plain tokens
+ */
+function describeBody(sourceCode: SourceCode, body: TemplateChild[]): string[] {
+  return body
+    .filter((child) => child.type !== 'newline')
+    .map((child) =>
+      'token' in child && 'parent' in child
+        ? child.type
+        : `${child.type}:${sourceCode.getText(child as TagToken).trim()}`
+    );
+}
+
+describe('buildTemplateAst', () => {
+  it('groups @elseif and @else into the alternates of an IfBlock', () => {
+    const sourceCode = createSourceCode(
+      ['@if(a)', 'A', '@elseif(b)', 'B', '@else', 'C', '@end'].join('\n')
+    );
+    const [ifBlock] = sourceCode.getTemplateAst().body;
+
+    expect(ifBlock).toMatchObject({ type: 'IfBlock', parent: { type: 'Template' } });
+    if (ifBlock?.type !== 'IfBlock') return;
+    expect(describeBody(sourceCode, ifBlock.consequent)).toEqual(['raw:A']);
+    expect(ifBlock.alternates.map((alternate) => alternate.type)).toEqual([
+      'ElseIfClause',
+      'ElseClause',
+    ]);
+    expect(describeBody(sourceCode, ifBlock.alternates[0]!.body)).toEqual(['raw:B']);
+    expect(describeBody(sourceCode, ifBlock.alternates[1]!.body)).toEqual(['raw:C']);
+    expect(sourceCode.getTemplateNode(ifBlock.alternates[1]!.token)).toBe(ifBlock.alternates[1]);
+  });
+
+  it('splits @each into the loop body and the empty body', () => {
+    const sourceCode = createSourceCode(
+      [
+        '@each(item in items)',
+        '{{ item }}',
+        '@else',
+        'None',
+        '@end',
+        '@each(x in xs)',
+        '@end',
+      ].join('\n')
+    );
+    const [withElse, withoutElse] = sourceCode
+      .getTemplateAst()
+      .body.filter((child) => child.type === 'EachBlock');
+
+    if (withElse?.type !== 'EachBlock' || withoutElse?.type !== 'EachBlock') {
+      throw new Error('Expected two EachBlock nodes');
+    }
+    expect(describeBody(sourceCode, withElse.body)).toEqual(['mustache:{{ item }}']);
+    expect(describeBody(sourceCode, withElse.emptyBody!)).toEqual(['raw:None']);
+    expect(withElse.alternate).toMatchObject({ type: 'ElseClause', parent: withElse });
+    expect(withoutElse.emptyBody).toBeNull();
+    expect(withoutElse.alternate).toBeNull();
+  });
+
+  it('collects the slots of a component and other blocks with content', () => {
+    const sourceCode = createSourceCode(
+      [
+        "@component('card')",
+        "@slot('title')",
+        'Title',
+        '@end',
+        '@slot(name)',
+        '@end',
+        '@end',
+        "@pushTo('scripts')",
+        '<script></script>',
+        '@end',
+      ].join('\n')
+    );
+    const [component, block] = sourceCode
+      .getTemplateAst()
+      .body.filter((child) => 'token' in child && 'parent' in child);
+
+    if (component?.type !== 'ComponentBlock') throw new Error('Expected a ComponentBlock');
+    expect(component.slots.map((slot) => slot.name)).toEqual(['title', null]);
+    expect(component.slots[0]!.parent).toBe(component);
+    expect(block).toMatchObject({ type: 'Block', token: { properties: { name: 'pushTo' } } });
+  });
+});
+
+describe('template AST visitors', () => {
+  it('calls node hooks after the tag handlers, with exits after the body', () => {
+    const events: string[] = [];
+    const rule: Rule = {
+      meta: { type: 'problem', docs: { description: 'Test rule', category: 'Syntax' } },
+      create() {
+        const log = (event: string) => () => {
+          events.push(event);
+        };
+        return {
+          Tag: (token) => {
+            events.push(`Tag ${token.properties.name}`);
+          },
+          Mustache: log('Mustache'),
+          IfBlock: log('IfBlock'),
+          'IfBlock:exit': log('IfBlock:exit'),
+          ElseClause: log('ElseClause'),
+          EachBlock: log('EachBlock'),
+          'EachBlock:exit': log('EachBlock:exit'),
+        };
+      },
+    };
+    const linter = new Linter({ config: { rules: { 'test/events': 'error' } } });
+    linter.defineRule('test/events', rule);
+
+    linter.verify(
+      ['@if(a)', '@each(x in xs)', '{{ x }}', '@end', '@else', '{{ b }}', '@end'].join('\n'),
+      'test.edge'
+    );
+
+    expect(events).toEqual([
+      'Tag if',
+      'IfBlock',
+      'Tag each',
+      'EachBlock',
+      'Mustache',
+      'EachBlock:exit',
+      'Tag else',
+      'ElseClause',
+      'Mustache',
+      'IfBlock:exit',
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Template AST - Block structure built from lexer tokens
+ *
+ * edge-lexer nests a block tag's content in `children`, but leaves @elseif
+ * and @else as siblings of that content. The template AST groups them into
+ * branches:
+ *
+ *   @if(a) x @elseif(b) y @else z @end
+ *   IfBlock { consequent: [x], alternates: [ElseIfClause { body: [y] }, ElseClause { body: [z] }] }
+ *
+ * Text, mustaches, comments and non-block tags are kept as tokens in the
+ * bodies of their nodes.
+ */
+
+import type { Token } from 'edge-lexer/types';
+import type {
+  Block,
+  ComponentBlock,
+  EachBlock,
+  ElseClause,
+  ElseIfClause,
+  IfBlock,
+  SlotBlock,
+  SourceCode,
+  TagToken,
+  Template,
+  TemplateBlockNode,
+  TemplateChild,
+  TemplateNode,
+} from './types/index.js';
+
+/**
+ * A template AST with its nodes indexed by tag
+ */
+export interface TemplateAst {
+  template: Template;
+  /** Nodes for block, @elseif and @else tags */
+  nodes: WeakMap<TagToken, TemplateNode>;
+}
+
+/**
+ * Build the template AST for a source
+ */
+export function buildTemplateAst(sourceCode: SourceCode): TemplateAst {
+  const nodes = new WeakMap<TagToken, TemplateNode>();
+  const template: Template = { type: 'Template', body: [] };
+
+  function buildChildren(tokens: Token[], parent: TemplateNode): TemplateChild[] {
+    return tokens.map((token) => {
+      if (token.type !== 'tag') return token;
+
+      const node = buildBlock(token as unknown as TagToken, parent);
+      return node ?? token;
+    });
+  }
+
+  function buildBlock(tag: TagToken, parent: TemplateNode): TemplateBlockNode | null {
+    let node: TemplateBlockNode;
+
+    switch (tag.properties.name) {
+      case 'if':
+      case 'unless':
+        node = buildIf(tag, parent);
+        break;
+
+      case 'each':
+        node = buildEach(tag, parent);
+        break;
+
+      case 'component': {
+        const component: ComponentBlock = {
+          type: 'ComponentBlock',
+          token: tag,
+          parent,
+          body: [],
+          slots: [],
+        };
+        component.body = buildChildren(tag.children, component);
+        component.slots = component.body.filter(
+          (child): child is SlotBlock => child.type === 'SlotBlock'
+        );
+        node = component;
+        break;
+      }
+
+      case 'slot': {
+        const slot: SlotBlock = {
+          type: 'SlotBlock',
+          token: tag,
+          parent,
+          name: getSlotName(tag),
+          body: [],
+        };
+        slot.body = buildChildren(tag.children, slot);
+        node = slot;
+        break;
+      }
+
+      default: {
+        // Without tag definitions, a tag is only known to be a block if it has content
+        if (tag.children.length === 0) return null;
+
+        const block: Block = { type: 'Block', token: tag, parent, body: [] };
+        block.body = buildChildren(tag.children, block);
+        node = block;
+      }
+    }
+
+    nodes.set(tag, node);
+    return node;
+  }
+
+  function buildIf(tag: TagToken, parent: TemplateNode): IfBlock {
+    const node: IfBlock = { type: 'IfBlock', token: tag, parent, consequent: [], alternates: [] };
+    let branch: IfBlock | ElseIfClause | ElseClause = node;
+    let tokens: Token[] = [];
+
+    const closeBranch = () => {
+      const body = buildChildren(tokens, branch);
+      if (branch.type === 'IfBlock') {
+        branch.consequent = body;
+      } else {
+        branch.body = body;
+      }
+      tokens = [];
+    };
+
+    for (const child of tag.children) {
+      const name = child.type === 'tag' ? (child as unknown as TagToken).properties.name : null;
+      if (name !== 'elseif' && name !== 'else') {
+        tokens.push(child);
+        continue;
+      }
+
+      closeBranch();
+      const clauseTag = child as unknown as TagToken;
+      branch =
+        name === 'elseif'
+          ? { type: 'ElseIfClause', token: clauseTag, parent: node, body: [] }
+          : { type: 'ElseClause', token: clauseTag, parent: node, body: [] };
+      node.alternates.push(branch);
+      nodes.set(clauseTag, branch);
+    }
+    closeBranch();
+
+    return node;
+  }
+
+  function buildEach(tag: TagToken, parent: TemplateNode): EachBlock {
+    const node: EachBlock = {
+      type: 'EachBlock',
+      token: tag,
+      parent,
+      body: [],
+      emptyBody: null,
+      alternate: null,
+    };
+
+    // Only the first @else starts the empty branch; later ones stay in its body
+    const elseIndex = tag.children.findIndex(
+      (child) => child.type === 'tag' && (child as unknown as TagToken).properties.name === 'else'
+    );
+    if (elseIndex === -1) {
+      node.body = buildChildren(tag.children, node);
+      return node;
+    }
+
+    const elseTag = tag.children[elseIndex] as unknown as TagToken;
+    const alternate: ElseClause = { type: 'ElseClause', token: elseTag, parent: node, body: [] };
+    alternate.body = buildChildren(tag.children.slice(elseIndex + 1), alternate);
+    nodes.set(elseTag, alternate);
+
+    node.body = buildChildren(tag.children.slice(0, elseIndex), node);
+    node.alternate = alternate;
+    node.emptyBody = alternate.body;
+    return node;
+  }
+
+  // @slot('name') or @slot('name', scope)
+  function getSlotName(tag: TagToken): string | null {
+    const ast = sourceCode.getExpressionAst(tag);
+    const first = ast?.type === 'SequenceExpression' ? ast.expressions[0] : ast;
+    return first?.type === 'Literal' && typeof first.value === 'string' ? first.value : null;
+  }
+
+  template.body = buildChildren(sourceCode.tokens, template);
+  return { template, nodes };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from './tokenizer.js';
+
+const tags = {
+  if: { block: true, seekable: true },
+  each: { block: true, seekable: true },
+  let: { block: false, seekable: true },
+};
+
+function recover(source: string) {
+  return tokenize(source, { filename: 'test.edge', tags, recover: true });
+}
+
+describe('tokenize', () => {
+  it('stops at the first error without recovery', () => {
+    const result = tokenize('@if(a)\n@each(i in l)\n{{ i }}\n', { filename: 'test.edge', tags });
+
+    expect(result.tokens).toBeNull();
+    expect(result.errors).toEqual([{ message: 'Unclosed tag each', line: 2, column: 6 }]);
+  });
+
+  it('reports every unclosed block tag at its name, innermost first', () => {
+    const result = recover('@if(a)\n@each(i in l)\n{{ i }}\n');
+
+    expect(result.tokens).not.toBeNull();
+    expect(result.errors).toEqual([
+      {
+        message: 'Unclosed tag "@each". Expected "@end" to close it.',
+        line: 2,
+        column: 0,
+        endLine: 2,
+        endColumn: 5,
+      },
+      {
+        message: 'Unclosed tag "@if". Expected "@end" to close it.',
+        line: 1,
+        column: 0,
+        endLine: 1,
+        endColumn: 3,
+      },
+    ]);
+  });
+
+  it('reports an unclosed mustache at its opening braces and keeps the next lines', () => {
+    const result = recover('{{ a }\n{{ b }}\n');
+
+    expect(result.errors).toEqual([
+      {
+        message: 'Unclosed mustache. Expected "}}" to close it.',
+        line: 1,
+        column: 0,
+        endLine: 1,
+        endColumn: 6,
+      },
+    ]);
+    const mustaches = result.tokens!.filter((token) => token.type === 'mustache');
+    expect(mustaches).toHaveLength(1);
+    expect(mustaches[0]).toMatchObject({
+      properties: { jsArg: ' b ' },
+      loc: { start: { line: 2 } },
+    });
+  });
+
+  it('reports unclosed tag arguments up to the end of the line', () => {
+    const result = recover('@if(cond\n{{ c }}\n');
+
+    expect(result.errors).toEqual([
+      {
+        message: 'Missing ")" to close the arguments of "@if".',
+        line: 1,
+        column: 0,
+        endLine: 1,
+        endColumn: 8,
+      },
+    ]);
+  });
+
+  it('reports an unclosed comment', () => {
+    const result = recover('{{-- open\n');
+
+    expect(result.errors).toEqual([
+      {
+        message: 'Unclosed comment. Expected "--}}" to close it.',
+        line: 1,
+        column: 0,
+        endLine: 1,
+        endColumn: 9,
+      },
+    ]);
+  });
+
+  it('reports content after a tag on the same line without the leading space', () => {
+    const result = recover('@if(x) hello\n@end\n{{ ok }}\n');
+
+    expect(result.errors).toEqual([
+      {
+        message: 'Unexpected token " hello". Content after a tag must start on a new line.',
+        line: 1,
+        column: 7,
+        endLine: 1,
+        endColumn: 12,
+      },
+    ]);
+    expect(result.tokens!.some((token) => token.type === 'mustache')).toBe(true);
+  });
+
+  it('gives up after a bounded number of recoveries', () => {
+    const source = Array.from({ length: 150 }, () => '{{-- x').join('\n');
+    const result = recover(source);
+
+    expect(result.tokens).toBeNull();
+    expect(result.errors).toHaveLength(101);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Tokenizer - edge-lexer with error recovery
+ *
+ * edge-lexer stops at the first syntax error. In recovery mode the source is
+ * patched and tokenized again, so rules still run on the rest of the template:
+ *   - an unclosed block tag gets an `@end` appended to the template
+ *   - an unclosed mustache or comment, a tag with unclosed arguments and
+ *     content after a tag on the same line are blanked out
+ *
+ * Blanked regions are replaced with spaces, so the remaining tokens keep
+ * their positions in the original source.
+ */
+
+import { Tokenizer } from 'edge-lexer';
+import type { LexerTagDefinitionContract, Token } from 'edge-lexer/types';
+
+/**
+ * A syntax error found while tokenizing
+ */
+export interface TemplateSyntaxError {
+  message: string;
+  /** Line number (1-indexed) */
+  line: number;
+  /** Column number (0-indexed) */
+  column: number;
+  /** End line number (1-indexed) */
+  endLine?: number | undefined;
+  /** End column number (0-indexed) */
+  endColumn?: number | undefined;
+}
+
+/**
+ * Options for tokenize()
+ */
+export interface TokenizeOptions {
+  filename: string;
+  /** Tag definitions passed to edge-lexer */
+  tags: Record<string, LexerTagDefinitionContract>;
+  /** Recover from syntax errors instead of stopping at the first one */
+  recover?: boolean;
+}
+
+/**
+ * Result of tokenize(): tokens are null if the source couldn't be recovered
+ */
+export interface TokenizeResult {
+  tokens: Token[] | null;
+  errors: TemplateSyntaxError[];
+}
+
+/**
+ * Error thrown by edge-lexer
+ */
+interface LexerError {
+  message?: string;
+  code?: string;
+  line?: number;
+  col?: number;
+}
+
+interface Recovery {
+  text: string;
+  error: TemplateSyntaxError;
+}
+
+// Upper bound on patch-and-retry rounds for badly broken templates
+const MAX_RECOVERIES = 100;
+
+const TAG_NAME_REGEX = /^@{1,2}!?([a-zA-Z._]+)/;
+
+/**
+ * Tokenize a template, optionally recovering from syntax errors
+ */
+export function tokenize(source: string, options: TokenizeOptions): TokenizeResult {
+  const errors: TemplateSyntaxError[] = [];
+  let text = source;
+
+  for (let attempt = 0; attempt <= MAX_RECOVERIES; attempt++) {
+    try {
+      const tokenizer = new Tokenizer(text, options.tags, { filename: options.filename });
+      tokenizer.parse();
+      return { tokens: tokenizer.tokens, errors };
+    } catch (error: unknown) {
+      const lexerError = error as LexerError;
+      const recovery = options.recover ? recover(text, lexerError) : null;
+
+      if (!recovery) {
+        errors.push({
+          message: lexerError.message ?? 'Syntax error',
+          line: lexerError.line ?? 1,
+          column: lexerError.col ?? 0,
+        });
+        return { tokens: null, errors };
+      }
+
+      errors.push(recovery.error);
+      text = recovery.text;
+    }
+  }
+
+  return { tokens: null, errors };
+}
+
+/**
+ * Patch the source so the lexer gets past an error
+ */
+function recover(text: string, error: LexerError): Recovery | null {
+  const lineStarts = getLineStarts(text);
+  const line = Math.min(Math.max(error.line ?? 1, 1), lineStarts.length);
+  const index = Math.min((lineStarts[line - 1] ?? 0) + (error.col ?? 0), text.length);
+
+  switch (error.code) {
+    case 'E_UNCLOSED_TAG': {
+      // Reported at the innermost unclosed tag; each round closes one more
+      const start = text.lastIndexOf('@', index);
+      const match = start === -1 ? null : TAG_NAME_REGEX.exec(text.slice(start));
+      if (!match) return null;
+
+      const separator = text === '' || text.endsWith('\n') ? '' : '\n';
+      return {
+        text: `${text}${separator}@end`,
+        error: createError(
+          lineStarts,
+          `Unclosed tag "@${match[1]}". Expected "@end" to close it.`,
+          start,
+          start + match[0].length
+        ),
+      };
+    }
+
+    case 'E_UNCLOSED_CURLY_BRACE': {
+      // The lexer reports the end of the file, so find the opening braces
+      const unclosed = findUnclosedMustache(text);
+      if (!unclosed) break;
+
+      return blankRange(
+        text,
+        lineStarts,
+        `Unclosed ${unclosed.kind}. Expected "${unclosed.close}" to close it.`,
+        unclosed.start,
+        getLineEnd(text, unclosed.start)
+      );
+    }
+
+    case 'E_UNCLOSED_PAREN': {
+      const start = text.lastIndexOf('@', index);
+      const match = start === -1 ? null : TAG_NAME_REGEX.exec(text.slice(start));
+      if (!match) break;
+
+      return blankRange(
+        text,
+        lineStarts,
+        `Missing ")" to close the arguments of "@${match[1]}".`,
+        start,
+        getLineEnd(text, start)
+      );
+    }
+
+    case 'E_CANNOT_SEEK_STATEMENT': {
+      const end = getLineEnd(text, index);
+      const start = end - text.slice(index, end).trimStart().length;
+
+      return blankRange(
+        text,
+        lineStarts,
+        `${error.message ?? 'Unexpected token'}. Content after a tag must start on a new line.`,
+        start,
+        end
+      );
+    }
+  }
+
+  // Unknown errors: drop the whole line
+  const lineStart = lineStarts[line - 1] ?? 0;
+  return blankRange(
+    text,
+    lineStarts,
+    error.message ?? 'Syntax error',
+    lineStart,
+    getLineEnd(text, lineStart)
+  );
+}
+
+/**
+ * Replace a range with spaces and report it, or give up if it is already blank
+ */
+function blankRange(
+  text: string,
+  lineStarts: number[],
+  message: string,
+  start: number,
+  end: number
+): Recovery | null {
+  const region = text.slice(start, end);
+  if (region.trim() === '') return null;
+
+  return {
+    text: text.slice(0, start) + region.replace(/[^\r\n]/g, ' ') + text.slice(end),
+    error: createError(lineStarts, message, start, start + region.trimEnd().length),
+  };
+}
+
+/**
+ * Find the first mustache or comment without closing braces, matching
+ * braces the way edge-lexer does
+ */
+function findUnclosedMustache(
+  text: string
+): { start: number; kind: 'mustache' | 'comment'; close: string } | null {
+  let index = text.indexOf('{{');
+
+  while (index !== -1) {
+    const kind = text.startsWith('{{--', index) ? 'comment' : 'mustache';
+    const close = kind === 'comment' ? '--}}' : text.startsWith('{{{', index) ? '}}}' : '}}';
+    const open = kind === 'comment' ? 4 : close.length;
+
+    const end = findClosingPattern(text, index + open, close);
+    if (end === -1) {
+      return { start: index, kind, close };
+    }
+    index = text.indexOf('{{', end);
+  }
+
+  return null;
+}
+
+/**
+ * Index after the closing pattern, skipping patterns inside nested braces
+ */
+function findClosingPattern(text: string, from: number, pattern: string): number {
+  let depth = 0;
+
+  for (let i = from; i < text.length; i++) {
+    if (depth === 0 && text.startsWith(pattern, i)) {
+      return i + pattern.length;
+    }
+    if (text[i] === '{') depth++;
+    if (text[i] === '}') depth--;
+  }
+
+  return -1;
+}
+
+function createError(
+  lineStarts: number[],
+  message: string,
+  start: number,
+  end: number
+): TemplateSyntaxError {
+  const startLoc = getLoc(lineStarts, start);
+  const endLoc = getLoc(lineStarts, end);
+  return {
+    message,
+    line: startLoc.line,
+    column: startLoc.column,
+    endLine: endLoc.line,
+    endColumn: endLoc.column,
+  };
+}
+
+function getLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function getLoc(lineStarts: number[], index: number): { line: number; column: number } {
+  for (let i = lineStarts.length - 1; i >= 0; i--) {
+    const lineStart = lineStarts[i]!;
+    if (index >= lineStart) {
+      return { line: i + 1, column: index - lineStart };
+    }
+  }
+  return { line: 1, column: index };
+}
+
+function getLineEnd(text: string, index: number): number {
+  const newline = text.indexOf('\n', index);
+  const end = newline === -1 ? text.length : newline;
+  return text[end - 1] === '\r' ? end - 1 : end;
+}
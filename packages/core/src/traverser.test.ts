@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Linter } from './linter.js';
+import { mergeVisitors } from './traverser.js';
+import type { Rule, TokenVisitor } from './types/index.js';
+
+function createRule(create: Rule['create']): Rule {
+  return {
+    meta: { type: 'problem', docs: { description: 'Test rule', category: 'Syntax' } },
+    create,
+  };
+}
+
+describe('mergeVisitors', () => {
+  it('calls the handlers of every rule for each event, in rule order', () => {
+    const calls: string[] = [];
+    const merged = mergeVisitors(
+      [
+        { ruleId: 'a', visitor: { Program: () => calls.push('a:Program') } as TokenVisitor },
+        {
+          ruleId: 'b',
+          visitor: {
+            Program: () => calls.push('b:Program'),
+            'Program:exit': () => calls.push('b:Program:exit'),
+          } as TokenVisitor,
+        },
+      ],
+      () => {}
+    );
+
+    merged.Program?.([]);
+    merged['Program:exit']?.([]);
+
+    expect(calls).toEqual(['a:Program', 'b:Program', 'b:Program:exit']);
+    expect(merged.Mustache).toBeUndefined();
+  });
+
+  it('stops a rule after its first error without affecting the others', () => {
+    const onError = vi.fn();
+    const calls: string[] = [];
+    const merged = mergeVisitors(
+      [
+        {
+          ruleId: 'broken',
+          visitor: {
+            Program: () => {
+              throw new Error('boom');
+            },
+            'Program:exit': () => calls.push('broken:Program:exit'),
+          } as TokenVisitor,
+        },
+        { ruleId: 'ok', visitor: { 'Program:exit': () => calls.push('ok:Program:exit') } },
+      ],
+      onError
+    );
+
+    merged.Program?.([]);
+    merged['Program:exit']?.([]);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith('broken', new Error('boom'));
+    expect(calls).toEqual(['ok:Program:exit']);
+  });
+});
+
+describe('Linter rule execution', () => {
+  it('walks the template once for all rules', () => {
+    const linter = new Linter({
+      config: { rules: { 'test/first': 'error', 'test/second': 'error' } },
+    });
+    const visits: string[] = [];
+    for (const ruleId of ['test/first', 'test/second']) {
+      linter.defineRule(
+        ruleId,
+        createRule(() => ({
+          Mustache: (token) => {
+            visits.push(`${ruleId}:${token.properties.jsArg.trim()}`);
+          },
+        }))
+      );
+    }
+
+    linter.verify('{{ a }}\n{{ b }}', 'test.edge');
+
+    expect(visits).toEqual(['test/first:a', 'test/second:a', 'test/first:b', 'test/second:b']);
+  });
+
+  it('reports a failing rule once and keeps the messages of the others', () => {
+    const linter = new Linter({
+      config: {
+        rules: {
+          'test/throws': 'warn',
+          'test/create-throws': 'error',
+          'no-empty-mustache': 'error',
+        },
+      },
+    });
+    linter.defineRule(
+      'test/throws',
+      createRule((context) => ({
+        Mustache(token) {
+          context.report({ node: token, message: 'Before the error' });
+          throw new Error('handler failed');
+        },
+      }))
+    );
+    linter.defineRule(
+      'test/create-throws',
+      createRule(() => {
+        throw new Error('create failed');
+      })
+    );
+
+    const messages = linter.verify('{{ }}\n{{ }}', 'test.edge');
+
+    expect(
+      messages.map(({ ruleId, severity, message }) => ({ ruleId, severity, message }))
+    ).toEqual([
+      {
+        ruleId: 'test/throws',
+        severity: 2,
+        message: 'Rule "test/throws" threw an error: handler failed',
+      },
+      {
+        ruleId: 'test/create-throws',
+        severity: 2,
+        message: 'Rule "test/create-throws" threw an error: create failed',
+      },
+      { ruleId: 'no-empty-mustache', severity: 2, message: expect.any(String) },
+      { ruleId: 'no-empty-mustache', severity: 2, message: expect.any(String) },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Traverser - Walks the token tree and dispatches to visitor handlers
+ *
+ * The linter merges the visitors of all enabled rules into one dispatch
+ * table, so the template is walked once no matter how many rules run:
+ *
+ *   Program → Tag → Expression → IfBlock → (children) → IfBlock:exit → Tag:exit → ... → Program:exit
+ *
+ * A rule whose handler throws is stopped on its own; the other rules keep
+ * receiving events.
+ */
+
+import type { Token } from 'edge-lexer/types';
+import type { SourceCode } from './source-code.js';
+import type {
+  TokenVisitor,
+  TagToken,
+  MustacheToken,
+  RawToken,
+  CommentToken,
+  NewLineToken,
+  TemplateNode,
+} from './types/index.js';
+
+/**
+ * A rule's visitor, as passed to mergeVisitors()
+ */
+export interface RuleVisitor {
+  ruleId: string;
+  visitor: TokenVisitor;
+}
+
+type Handler = (...args: unknown[]) => void;
+
+/**
+ * Merge rule visitors into one visitor that calls each rule's handler in order
+ *
+ * When a handler throws, `onError` is called once for its rule and the
+ * rule's remaining handlers are skipped. If `times` is given, the time spent
+ * in each rule's handlers is added to it, in milliseconds.
+ */
+export function mergeVisitors(
+  ruleVisitors: RuleVisitor[],
+  onError: (ruleId: string, error: unknown) => void,
+  times?: Map<string, number>
+): TokenVisitor {
+  const failedRules = new Set<string>();
+  const handlersByEvent = new Map<string, Array<{ ruleId: string; handler: Handler }>>();
+
+  for (const { ruleId, visitor } of ruleVisitors) {
+    for (const [event, handler] of Object.entries(visitor)) {
+      if (typeof handler !== 'function') continue;
+
+      let handlers = handlersByEvent.get(event);
+      if (!handlers) {
+        handlers = [];
+        handlersByEvent.set(event, handlers);
+      }
+      handlers.push({ ruleId, handler: handler as Handler });
+    }
+  }
+
+  const merged: Record<string, Handler> = {};
+  for (const [event, handlers] of handlersByEvent) {
+    merged[event] = (...args) => {
+      for (const { ruleId, handler } of handlers) {
+        if (failedRules.has(ruleId)) continue;
+
+        try {
+          const start = times ? performance.now() : 0;
+          handler(...args);
+          if (times) {
+            times.set(ruleId, (times.get(ruleId) ?? 0) + performance.now() - start);
+          }
+        } catch (error: unknown) {
+          failedRules.add(ruleId);
+          onError(ruleId, error);
+        }
+      }
+    };
+  }
+
+  return merged as TokenVisitor;
+}
+
+/**
+ * Walk a template's tokens, calling the visitor's handlers
+ */
+export function traverse(sourceCode: SourceCode, visitor: TokenVisitor): void {
+  const tokens = sourceCode.tokens;
+
+  visitor.Program?.(tokens);
+  visitTokens(tokens, visitor, sourceCode);
+  visitor['Program:exit']?.(tokens);
+}
+
+/**
+ * Visit an array of tokens
+ */
+function visitTokens(tokens: Token[], visitor: TokenVisitor, sourceCode: SourceCode): void {
+  for (const token of tokens) {
+    visitToken(token, visitor, sourceCode);
+  }
+}
+
+/**
+ * Visit a single token and dispatch to appropriate handler
+ */
+function visitToken(token: Token, visitor: TokenVisitor, sourceCode: SourceCode): void {
+  switch (token.type) {
+    case 'tag': {
+      const tag = token as unknown as TagToken;
+      const node = sourceCode.getTemplateNode(tag);
+
+      visitor.Tag?.(tag);
+      visitExpression(tag, visitor, sourceCode);
+      if (node) visitTemplateNode(node, visitor, false);
+      if ('children' in token && Array.isArray(token.children)) {
+        visitTokens(token.children, visitor, sourceCode);
+      }
+      if (node) visitTemplateNode(node, visitor, true);
+      visitor['Tag:exit']?.(tag);
+      break;
+    }
+
+    case 'e__tag':
+      visitor.EscapedTag?.(token as unknown as TagToken);
+      break;
+
+    case 'mustache':
+      visitor.Mustache?.(token as unknown as MustacheToken);
+      visitExpression(token as unknown as MustacheToken, visitor, sourceCode);
+      break;
+
+    case 's__mustache':
+      visitor.SafeMustache?.(token as unknown as MustacheToken);
+      visitExpression(token as unknown as MustacheToken, visitor, sourceCode);
+      break;
+
+    case 'e__mustache':
+      visitor.EscapedMustache?.(token as unknown as MustacheToken);
+      break;
+
+    case 'es__mustache':
+      visitor.EscapedSafeMustache?.(token as unknown as MustacheToken);
+      break;
+
+    case 'raw':
+      visitor.Raw?.(token as unknown as RawToken);
+      break;
+
+    case 'comment':
+      visitor.Comment?.(token as unknown as CommentToken);
+      break;
+
+    case 'newline':
+      visitor.NewLine?.(token as unknown as NewLineToken);
+      break;
+  }
+}
+
+/**
+ * Call the Expression handler with a token's parsed argument
+ */
+function visitExpression(
+  token: MustacheToken | TagToken,
+  visitor: TokenVisitor,
+  sourceCode: SourceCode
+): void {
+  if (!visitor.Expression) return;
+
+  const ast = sourceCode.getExpressionAst(token);
+  if (ast) {
+    visitor.Expression(ast, token);
+  }
+}
+
+/**
+ * Call the handler for a template AST node, or its exit handler
+ */
+function visitTemplateNode(node: TemplateNode, visitor: TokenVisitor, exit: boolean): void {
+  // @elseif and @else branches end at the next sibling tag, so they have no exit
+  if (exit && (node.type === 'ElseIfClause' || node.type === 'ElseClause')) return;
+
+  const key = exit ? `${node.type}:exit` : node.type;
+  const handler = visitor[key as keyof TokenVisitor] as
+    | ((node: TemplateNode) => void)
+    | undefined;
+  handler?.(node);
+}
@@ -3,10 +3,14 @@
  */
 
 import type { Token as LexerToken } from 'edge-lexer/types';
+import type { Expression, Identifier, Node as ESTreeNode } from 'estree';
 
 // Re-export lexer types for convenience
 export type { Token as LexerToken } from 'edge-lexer/types';
 
+// Re-export ESTree types used for expression ASTs
+export type { Expression, Identifier, Node as ESTreeNode } from 'estree';
+
 /**
  * Generic token interface that both our types and edge-lexer tokens satisfy
  * Used for SourceCode methods that need to work with any token
@@ -103,6 +107,24 @@ export interface LintMessage {
   suggestions?: Suggestion[] | undefined;
 }
 
+/**
+ * Describes why a message was suppressed
+ */
+export interface Suppression {
+  /** Source of the suppression */
+  kind: 'directive';
+  /** Justification given in the directive comment */
+  justification: string;
+}
+
+/**
+ * A lint message suppressed by an inline directive
+ */
+export interface SuppressedLintMessage extends LintMessage {
+  /** Directives that suppressed this message */
+  suppressions: Suppression[];
+}
+
 /**
  * Result of linting a single file
  */
@@ -111,6 +133,8 @@ export interface LintResult {
   filename: string;
   /** All lint messages */
   messages: LintMessage[];
+  /** Messages suppressed by inline directives */
+  suppressedMessages?: SuppressedLintMessage[] | undefined;
   /** Number of error-level messages */
   errorCount: number;
   /** Number of warning-level messages */
@@ -123,6 +147,8 @@ export interface LintResult {
   source?: string | undefined;
   /** Fixed source code (if fixes were applied) */
   output?: string | undefined;
+  /** Milliseconds spent in each rule, by rule ID (with the `timing` verify option) */
+  timing?: Record<string, number> | undefined;
 }
 
 /**
@@ -180,6 +206,11 @@ export interface ReportDescriptor {
   node?: ReportableNode;
   /** Explicit location (overrides node location) */
   loc?: SourceLocation | { line: number; column: number };
+  /**
+   * [start, end] offsets into the node's `jsArg` to report instead of the whole token.
+   * Requires `node` to be a mustache or tag token.
+   */
+  jsArgRange?: [number, number];
   /** Message to display */
   message?: string;
   /** Message ID to use from rule.meta.messages */
@@ -299,6 +330,112 @@ export type EdgeToken =
   | CommentToken
   | NewLineToken;
 
+/**
+ * Child of a template AST node: a block node, or a token kept as-is
+ * (text, newline, mustache, comment or non-block tag)
+ */
+export type TemplateChild = TemplateBlockNode | LexerToken;
+
+/**
+ * Root of the template AST
+ */
+export interface Template {
+  type: 'Template';
+  body: TemplateChild[];
+}
+
+/**
+ * @if or @unless, with its @elseif and @else branches
+ */
+export interface IfBlock {
+  type: 'IfBlock';
+  token: TagToken;
+  parent: TemplateNode;
+  /** Content before the first @elseif or @else */
+  consequent: TemplateChild[];
+  /** @elseif and @else branches, in source order */
+  alternates: Array<ElseIfClause | ElseClause>;
+}
+
+/**
+ * An @elseif branch
+ */
+export interface ElseIfClause {
+  type: 'ElseIfClause';
+  token: TagToken;
+  parent: IfBlock;
+  body: TemplateChild[];
+}
+
+/**
+ * An @else branch of @if, @unless or @each
+ */
+export interface ElseClause {
+  type: 'ElseClause';
+  token: TagToken;
+  parent: IfBlock | EachBlock;
+  body: TemplateChild[];
+}
+
+/**
+ * @each loop
+ */
+export interface EachBlock {
+  type: 'EachBlock';
+  token: TagToken;
+  parent: TemplateNode;
+  /** Content rendered for each item */
+  body: TemplateChild[];
+  /** Content after @else, rendered for empty collections (null without @else) */
+  emptyBody: TemplateChild[] | null;
+  /** The @else branch, if any */
+  alternate: ElseClause | null;
+}
+
+/**
+ * @component block
+ */
+export interface ComponentBlock {
+  type: 'ComponentBlock';
+  token: TagToken;
+  parent: TemplateNode;
+  body: TemplateChild[];
+  /** @slot blocks directly inside the component */
+  slots: SlotBlock[];
+}
+
+/**
+ * @slot block
+ */
+export interface SlotBlock {
+  type: 'SlotBlock';
+  token: TagToken;
+  parent: TemplateNode;
+  /** Slot name, if given as a string literal */
+  name: string | null;
+  body: TemplateChild[];
+}
+
+/**
+ * Any other tag with content, e.g. @pushTo or a custom block tag
+ */
+export interface Block {
+  type: 'Block';
+  token: TagToken;
+  parent: TemplateNode;
+  body: TemplateChild[];
+}
+
+/**
+ * Template AST nodes that open a block
+ */
+export type TemplateBlockNode = IfBlock | EachBlock | ComponentBlock | SlotBlock | Block;
+
+/**
+ * Any template AST node
+ */
+export type TemplateNode = Template | TemplateBlockNode | ElseIfClause | ElseClause;
+
 /**
  * Forward declaration of SourceCode (defined in source-code.ts)
  */
@@ -322,6 +459,8 @@ export interface SourceCode {
   getTokensByType(type: string): LexerToken[];
   /** Get byte range of a token */
   getRange(token: AnyToken): [number, number] | null;
+  /** Get byte range of a mustache or tag argument (jsArg) */
+  getJsArgRange(token: MustacheToken | TagToken): [number, number];
   /** Convert location to byte index */
   getIndexFromLoc(loc: { line: number; col: number }): number;
   /** Convert byte index to location */
@@ -332,6 +471,129 @@ export interface SourceCode {
   getParent(token: AnyToken): TagToken | null;
   /** Get all ancestors of a token */
   getAncestors(token: AnyToken): TagToken[];
+  /** Get the parsed argument of a mustache or tag, with ranges mapped to template offsets */
+  getExpressionAst(token: MustacheToken | TagToken): Expression | null;
+  /** Get the scope manager for the template */
+  getScopeManager(): ScopeManager;
+  /** Get the scope a token's argument is evaluated in */
+  getScope(token: AnyToken): Scope;
+  /** Get the template AST, with @elseif and @else grouped into branches */
+  getTemplateAst(): Template;
+  /** Get the template AST node for a block, @elseif or @else tag */
+  getTemplateNode(tag: TagToken): TemplateNode | null;
+}
+
+/**
+ * Kind of scope in a template
+ * - 'global': configured globals
+ * - 'template': the template itself, with $props, $slots and top-level @let variables
+ * - 'block': a block tag such as @if
+ * - 'component': a @component block
+ * - 'each': an @each block, with the item and index
+ * - 'slot': a @slot block, with the slot's scope argument
+ * - 'function': a function inside an expression
+ */
+export type ScopeType = 'global' | 'template' | 'block' | 'component' | 'each' | 'slot' | 'function';
+
+/**
+ * How a variable was introduced
+ * - 'global': listed in settings['edge/globals']
+ * - 'implicit': $props and $slots, available in every template
+ * - 'let': @let(name = value)
+ * - 'each': item or index of @each
+ * - 'slot': scope argument of @slot('name', scope)
+ * - 'param': parameter of a function inside an expression
+ * - 'local': variable or function declared inside a function body
+ */
+export type VariableKind = 'global' | 'implicit' | 'let' | 'each' | 'slot' | 'param' | 'local';
+
+/**
+ * Where a variable is declared
+ */
+export interface VariableDefinition {
+  /** Identifier that names the variable */
+  identifier: Identifier;
+  /** Tag or mustache whose argument declares it */
+  token: TagToken | MustacheToken;
+}
+
+/**
+ * A variable in a template scope
+ */
+export interface Variable {
+  /** Variable name */
+  name: string;
+  /** How the variable was introduced */
+  kind: VariableKind;
+  /** Scope the variable belongs to */
+  scope: Scope;
+  /** Declarations (empty for globals and implicit variables) */
+  defs: VariableDefinition[];
+  /** References that resolve to the variable */
+  references: Reference[];
+}
+
+/**
+ * An identifier that reads or writes a variable
+ */
+export interface Reference {
+  /** The referencing identifier */
+  identifier: Identifier;
+  /** Tag or mustache containing the identifier */
+  token: TagToken | MustacheToken;
+  /** Scope the reference is made from */
+  from: Scope;
+  /** Variable the reference resolves to, or null if it is undefined */
+  resolved: Variable | null;
+  /** Whether the variable is read */
+  isRead: boolean;
+  /** Whether the variable is written, e.g. by @assign */
+  isWrite: boolean;
+}
+
+/**
+ * A scope in a template
+ */
+export interface Scope {
+  /** Kind of scope */
+  type: ScopeType;
+  /** Tag that opens the scope (null for the global, template and function scopes) */
+  token: TagToken | null;
+  /** Function node for function scopes */
+  node: ESTreeNode | null;
+  /** Enclosing scope */
+  upper: Scope | null;
+  /** Scopes nested directly inside this one */
+  childScopes: Scope[];
+  /** Variables declared in this scope */
+  variables: Variable[];
+  /** Variables declared in this scope, by name */
+  set: Map<string, Variable>;
+  /** References made directly from this scope */
+  references: Reference[];
+  /** References from this scope or its children not resolved in this scope */
+  through: Reference[];
+}
+
+/**
+ * Forward declaration of ScopeManager (defined in scope-manager.ts)
+ */
+export interface ScopeManager {
+  /** Scope holding configured globals */
+  readonly globalScope: Scope;
+  /** Scope of the template itself */
+  readonly templateScope: Scope;
+  /** All scopes, starting with the global and template scopes */
+  readonly scopes: Scope[];
+
+  /** Get the scope a token's argument is evaluated in */
+  getScope(token: AnyToken): Scope;
+  /** Get the scope opened by a tag, if any */
+  acquire(tag: TagToken): Scope | null;
+  /** Get the variables declared by a tag or mustache argument */
+  getDeclaredVariables(token: TagToken | MustacheToken): Variable[];
+  /** Get the reference made by an identifier, if it is a reference */
+  getReference(identifier: Identifier): Reference | null;
 }
 
 /**
@@ -377,6 +639,23 @@ export interface TokenVisitor {
   EscapedMustache?: TokenVisitorHandler<MustacheToken>;
   EscapedSafeMustache?: TokenVisitorHandler<MustacheToken>;
 
+  // Parsed arguments of mustaches and tags (called after the token's handler)
+  Expression?: (node: Expression, token: MustacheToken | TagToken) => void;
+
+  // Template AST nodes (called after the tag's handlers; clauses have no exit)
+  IfBlock?: (node: IfBlock) => void;
+  'IfBlock:exit'?: (node: IfBlock) => void;
+  ElseIfClause?: (node: ElseIfClause) => void;
+  ElseClause?: (node: ElseClause) => void;
+  EachBlock?: (node: EachBlock) => void;
+  'EachBlock:exit'?: (node: EachBlock) => void;
+  ComponentBlock?: (node: ComponentBlock) => void;
+  'ComponentBlock:exit'?: (node: ComponentBlock) => void;
+  SlotBlock?: (node: SlotBlock) => void;
+  'SlotBlock:exit'?: (node: SlotBlock) => void;
+  Block?: (node: Block) => void;
+  'Block:exit'?: (node: Block) => void;
+
   // Other tokens
   Raw?: TokenVisitorHandler<RawToken>;
   Comment?: TokenVisitorHandler<CommentToken>;
@@ -419,7 +698,7 @@ export interface EdgeLintConfig {
   extends?: string | string[];
   /** Rule configurations */
   rules?: Record<string, RuleConfig>;
-  /** Plugins to load */
+  /** Plugins to load ("acme" loads "edge-lint-plugin-acme") */
   plugins?: string[];
   /** Global settings accessible to rules */
   settings?: Record<string, unknown>;
@@ -428,11 +707,61 @@ export interface EdgeLintConfig {
   /** File patterns to ignore */
   ignorePatterns?: string[];
   /** Override configurations for specific files */
-  overrides?: Array<{
-    files: string | string[];
-    excludedFiles?: string | string[];
-    rules?: Record<string, RuleConfig>;
-  }>;
+  overrides?: ConfigOverride[];
+}
+
+/**
+ * Configuration applied to files matching glob patterns
+ */
+export interface ConfigOverride {
+  /** Glob patterns of files the override applies to */
+  files: string | string[];
+  /** Glob patterns of files excluded from the override */
+  excludedFiles?: string | string[];
+  /**
+   * Directory `files` and `excludedFiles` are relative to. Set by `resolveConfig` to the
+   * directory of the config file that declares the override.
+   */
+  basePath?: string;
+  /** Rule configurations */
+  rules?: Record<string, RuleConfig>;
+  /** Global settings accessible to rules */
+  settings?: Record<string, unknown>;
+  /** Parser options */
+  parserOptions?: ParserOptions;
+}
+
+/**
+ * Plugin definition, exported by `edge-lint-plugin-*` packages
+ */
+export interface EdgeLintPlugin {
+  /** Plugin metadata */
+  meta?: {
+    name?: string;
+    version?: string;
+  };
+  /** Rules, registered as "<plugin>/<rule>" */
+  rules?: Record<string, Rule>;
+  /** Shareable configs, usable as "plugin:<plugin>/<config>" */
+  configs?: Record<string, EdgeLintConfig>;
+  /** Custom tags to register with the lexer */
+  tags?: ParserOptions['tags'];
+}
+
+/**
+ * Options for a single verify() call
+ */
+export interface VerifyOptions {
+  /**
+   * Report disable directives that suppress nothing.
+   * `true` reports them as warnings.
+   */
+  reportUnusedDisableDirectives?: boolean | Severity;
+  /**
+   * Measure the time spent in each rule's create() and visitor handlers.
+   * Read it with Linter#getRuleTimes() or LintResult.timing.
+   */
+  timing?: boolean;
 }
 
 /**
@@ -92,6 +92,7 @@ const flatConfigs = {
       '@edge-lint/require-props-defaults': 'off',
       '@edge-lint/each-else-on-empty': 'off',
       '@edge-lint/prefer-stack-push-once': 'off',
+      '@edge-lint/no-undef': 'off', // Needs render state listed in globals
 
       // Style - off by default
       '@edge-lint/mustache-spacing': 'off',
@@ -143,6 +144,7 @@ const flatConfigs = {
       '@edge-lint/require-props-defaults': 'warn',
       '@edge-lint/each-else-on-empty': 'warn',
       '@edge-lint/prefer-stack-push-once': 'warn',
+      '@edge-lint/no-undef': 'off', // Needs render state listed in globals
 
       // Style - warnings
       '@edge-lint/mustache-spacing': 'warn',
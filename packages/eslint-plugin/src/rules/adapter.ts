@@ -43,6 +43,8 @@ function convertMeta(meta: RuleMeta): ESLintRule.RuleMetaData {
  */
 interface EdgeLintSettings {
   tags?: Record<string, { block: boolean; seekable: boolean }>;
+  globals?: string[] | Record<string, boolean>;
+  globalSets?: string[];
 }
 
 function getEdgeLintSettings(context: ESLintRule.RuleContext): EdgeLintSettings {
@@ -68,18 +70,23 @@ export function createESLintRule(ruleId: string, coreRule: Rule): ESLintRule.Rul
       const sourceCode = context.sourceCode;
       const text = sourceCode.text;
 
-      // Get Edge lint settings (custom tags, etc.)
+      // Get Edge lint settings (custom tags, globals, etc.)
       const edgeLintSettings = getEdgeLintSettings(context);
 
       // Create a mini linter just for this rule
       const linter = new Linter();
 
-      // Get messages from running the rule
+      // Get messages from running the rule. Inline edge-lint-disable
+      // directives in the template are applied by verify()
       const messages = linter.verify(text, context.filename, {
         rules: { [ruleId]: [2, ...context.options] },
         parserOptions: {
           tags: edgeLintSettings.tags,
         },
+        settings: {
+          'edge/globals': edgeLintSettings.globals,
+          'edge/globalSets': edgeLintSettings.globalSets,
+        },
       });
 
       // Report messages via ESLint context
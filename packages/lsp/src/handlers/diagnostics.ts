@@ -7,13 +7,23 @@
 import {
   Diagnostic,
   DiagnosticSeverity,
+  DiagnosticTag,
   CodeAction,
   CodeActionKind,
   TextEdit,
   type CodeActionParams,
 } from 'vscode-languageserver/node.js';
+import { fileURLToPath } from 'node:url';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { Linter, type LintMessage, type EdgeLintConfig } from '@edge-lint/core';
+import {
+  Linter,
+  UNUSED_DIRECTIVE_RULE_ID,
+  findConfigFile,
+  importConfigFile,
+  resolveConfigWithPlugins,
+  type LintMessage,
+  type EdgeLintConfig,
+} from '@edge-lint/core';
 
 // Default configuration for LSP
 const DEFAULT_CONFIG: EdgeLintConfig = {
@@ -25,8 +35,28 @@ const DEFAULT_CONFIG: EdgeLintConfig = {
   },
 };
 
-// Create a shared linter instance
-const linter = new Linter({ config: DEFAULT_CONFIG });
+// Create a shared linter instance (replaced once the workspace config is loaded)
+let linter = new Linter({ config: DEFAULT_CONFIG });
+
+/**
+ * Load the workspace config file and the plugins it uses
+ *
+ * Returns the path of the loaded config file, if one was found.
+ */
+export async function loadWorkspaceConfig(rootPath: string): Promise<string | undefined> {
+  const configPath = findConfigFile(rootPath);
+  if (!configPath) {
+    return undefined;
+  }
+
+  const fileConfig = await importConfigFile(configPath);
+  const { config, plugins } = await resolveConfigWithPlugins(fileConfig, {
+    filePath: configPath,
+  });
+  linter = new Linter({ config, plugins, cwd: rootPath });
+
+  return configPath;
+}
 
 /**
  * Convert lint severity to LSP DiagnosticSeverity
@@ -58,6 +88,11 @@ function toDiagnostic(message: LintMessage, _document: TextDocument): Diagnostic
     code: message.ruleId,
   };
 
+  // Unused disable directives are rendered as unnecessary (faded) code
+  if (message.ruleId === UNUSED_DIRECTIVE_RULE_ID) {
+    diagnostic.tags = [DiagnosticTag.Unnecessary];
+  }
+
   // Store fix data for code actions
   if (message.fix) {
     diagnostic.data = { fix: message.fix };
@@ -71,10 +106,15 @@ function toDiagnostic(message: LintMessage, _document: TextDocument): Diagnostic
  */
 export function validateDocument(document: TextDocument): Diagnostic[] {
   const text = document.getText();
-  const filename = document.uri;
+  // Use file paths so `overrides` globs match
+  const filename = document.uri.startsWith('file:')
+    ? fileURLToPath(document.uri)
+    : document.uri;
 
   // Run the linter
-  const messages = linter.verify(text, filename);
+  const messages = linter.verify(text, filename, undefined, {
+    reportUnusedDisableDirectives: 'warn',
+  });
 
   // Convert to diagnostics
   return messages.map((m) => toDiagnostic(m, document));
@@ -119,5 +159,48 @@ export function getQuickFixes(
     actions.push(action);
   }
 
+  // Offer to suppress each rule with a disable directive
+  for (const diagnostic of params.context.diagnostics) {
+    if (diagnostic.source !== 'edge-lint' || typeof diagnostic.code !== 'string') continue;
+    if (diagnostic.code === 'edge-syntax-error' || diagnostic.code === UNUSED_DIRECTIVE_RULE_ID) {
+      continue;
+    }
+
+    actions.push(getDisableNextLineAction(document, diagnostic, diagnostic.code));
+  }
+
   return actions;
 }
+
+/**
+ * Create a code action that inserts an edge-lint-disable-next-line comment
+ * above the diagnostic, matching the line's indentation
+ */
+function getDisableNextLineAction(
+  document: TextDocument,
+  diagnostic: Diagnostic,
+  ruleId: string
+): CodeAction {
+  const line = diagnostic.range.start.line;
+  const lineText = document.getText({
+    start: { line, character: 0 },
+    end: { line: line + 1, character: 0 },
+  });
+  const indent = lineText.match(/^[ \t]*/)?.[0] ?? '';
+
+  return {
+    title: `Disable ${ruleId} for this line`,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: {
+      changes: {
+        [document.uri]: [
+          TextEdit.insert(
+            { line, character: 0 },
+            `${indent}{{-- edge-lint-disable-next-line ${ruleId} --}}\n`
+          ),
+        ],
+      },
+    },
+  };
+}
@@ -2,4 +2,4 @@
  * Handler exports
  */
 
-export { validateDocument, getQuickFixes } from './diagnostics.js';
+export { validateDocument, getQuickFixes, loadWorkspaceConfig } from './diagnostics.js';
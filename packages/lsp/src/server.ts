@@ -15,8 +15,9 @@ import {
   type Connection,
 } from 'vscode-languageserver/node.js';
 
+import { fileURLToPath } from 'node:url';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { validateDocument, getQuickFixes } from './handlers/diagnostics.js';
+import { validateDocument, getQuickFixes, loadWorkspaceConfig } from './handlers/diagnostics.js';
 
 // Create the connection and document manager
 const connection: Connection = createConnection(ProposedFeatures.all);
@@ -25,6 +26,9 @@ const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 // Server capabilities
 let hasWorkspaceFolderCapability = false;
 
+// Workspace root used to find the config file
+let rootPath: string | undefined;
+
 /**
  * Initialize the server
  */
@@ -36,6 +40,11 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
     capabilities.workspace && !!capabilities.workspace.workspaceFolders
   );
 
+  const rootUri = params.workspaceFolders?.[0]?.uri ?? params.rootUri;
+  if (rootUri?.startsWith('file:')) {
+    rootPath = fileURLToPath(rootUri);
+  }
+
   const result: InitializeResult = {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
@@ -65,8 +74,25 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
 /**
  * After initialization
  */
-connection.onInitialized(() => {
+connection.onInitialized(async () => {
   connection.console.log('Edge LSP server initialized');
+
+  if (!rootPath) return;
+
+  try {
+    const configPath = await loadWorkspaceConfig(rootPath);
+    if (configPath) {
+      connection.console.log(`Loaded config from ${configPath}`);
+    }
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    connection.console.error(`Failed to load config: ${err.message ?? 'Unknown error'}`);
+  }
+
+  // Revalidate documents opened before the config was loaded
+  for (const document of documents.all()) {
+    validateAndSendDiagnostics(document);
+  }
 });
 
 /**
@@ -92,8 +118,14 @@ async function validateAndSendDiagnostics(document: TextDocument): Promise<void>
     return;
   }
 
-  const diagnostics = validateDocument(document);
-  connection.sendDiagnostics({ uri: document.uri, diagnostics });
+  try {
+    const diagnostics = validateDocument(document);
+    connection.sendDiagnostics({ uri: document.uri, diagnostics });
+  } catch (error: unknown) {
+    // Invalid configs are reported once per document instead of crashing the server
+    const err = error as { message?: string };
+    connection.console.error(`Failed to lint ${document.uri}: ${err.message ?? 'Unknown error'}`);
+  }
 }
 
 /**